@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { createConfig, loadConfigFromEnv, ConfigurationError } from './config';
+import { KeyRing } from './utils/key-ring';
+
+describe('Backend configuration', () => {
+
+    const SECURE_SETTINGS = {
+        production: true,
+        jwtSecret: 'a'.repeat(32),
+        hmacSecret: 'anotherhmacsecret',
+        bdeCreationToken: 'creationtoken',
+    };
+
+    it('should use default values in development', () => {
+        const config = createConfig();
+
+        expect(config.production).to.be.false;
+        expect(config.hashAlgorithm).to.eq('bcrypt');
+        expect(config.bdeCreationToken).to.be.undefined;
+    });
+
+    it('should accept secure settings in production', () => {
+        expect(createConfig(SECURE_SETTINGS).production).to.be.true;
+    });
+
+    it('should reject default or too short secrets in production', () => {
+        expect(() => createConfig({ production: true })).to.throw(ConfigurationError);
+        expect(() => createConfig({ ... SECURE_SETTINGS, jwtSecret: 'tooshort' })).to.throw(ConfigurationError);
+        expect(() => createConfig({ ... SECURE_SETTINGS, bdeCreationToken: undefined })).to.throw(ConfigurationError);
+    });
+
+    it('should list all problems at once', () => {
+        try {
+            createConfig({ production: true });
+            expect.fail('An error should have been thrown');
+        } catch (e) {
+            expect(e).to.be.instanceOf(ConfigurationError);
+            expect((<ConfigurationError>e).problems).to.have.length(3);
+        }
+    });
+
+    it('should not require a JWT secret when a key ring is given', () => {
+        const keyRing = KeyRing.fromSecret('short');
+
+        expect(createConfig({ ... SECURE_SETTINGS, jwtSecret: 'jwtsecret', keyRing }).keyRing).to.eq(keyRing);
+    });
+
+    it('should reject an unknown hash algorithm', () => {
+        expect(() => loadConfigFromEnv({ HASH_ALGORITHM: 'md5' })).to.throw(ConfigurationError);
+    });
+
+    it('should reject invalid token lifetimes', () => {
+        expect(() => createConfig({ accessTokenLifetime: 0 })).to.throw(ConfigurationError);
+        expect(() => loadConfigFromEnv({ REFRESH_TOKEN_LIFETIME: 'one day' })).to.throw(ConfigurationError);
+        expect(() => loadConfigFromEnv({ MAGIC_LINK_LIFETIME: '-60' })).to.throw(ConfigurationError);
+        expect(() => loadConfigFromEnv({ SECURITY_STAMP_CACHE_LIFETIME: 'none' })).to.throw(ConfigurationError);
+    });
+
+    it('should load the configuration from the environment', () => {
+        const config = loadConfigFromEnv({
+            NODE_ENV: 'production',
+            JWT_SECRET: 'b'.repeat(40),
+            JWT_ISSUER: 'the-issuer',
+            JWT_AUDIENCE: 'the-audience',
+            ACCESS_TOKEN_LIFETIME: '300',
+            REFRESH_TOKEN_LIFETIME: '86400',
+            CHALLENGE_TOKEN_LIFETIME: '120',
+            SECURITY_STAMP_CACHE_LIFETIME: '0',
+            MAGIC_LINK_LOGIN: 'true',
+            MAGIC_LINK_LIFETIME: '600',
+            HMAC_SECRET: 'hmac',
+            HASH_ALGORITHM: 'scrypt',
+            BDE_CREATION_TOKEN: 'token',
+        });
+
+        expect(config).to.deep.eq({
+            production: true,
+            jwtSecret: 'b'.repeat(40),
+            jwtIssuer: 'the-issuer',
+            jwtAudience: 'the-audience',
+            accessTokenLifetime: 300,
+            refreshTokenLifetime: 86400,
+            challengeTokenLifetime: 120,
+            securityStampCacheLifetime: 0,
+            magicLinkLogin: true,
+            magicLinkLifetime: 600,
+            hmacSecret: 'hmac',
+            hashAlgorithm: 'scrypt',
+            bdeCreationToken: 'token',
+        });
+    });
+
+});
@@ -0,0 +1,191 @@
+import { KeyRing } from './utils/key-ring';
+
+/**
+ * Default secrets. They are only meant for development and are rejected in production.
+ */
+const DEFAULT_JWT_SECRET = 'jwtsecret';
+const DEFAULT_HMAC_SECRET = 'hmacsecret';
+
+/**
+ * Minimum length of the secrets used in production.
+ */
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Default lifetimes of the tokens (in seconds).
+ */
+const DEFAULT_ACCESS_TOKEN_LIFETIME = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_LIFETIME = 30 * 24 * 60 * 60;
+const DEFAULT_CHALLENGE_TOKEN_LIFETIME = 5 * 60;
+const DEFAULT_SECURITY_STAMP_CACHE_LIFETIME = 30;
+const DEFAULT_MAGIC_LINK_LIFETIME = 15 * 60;
+
+/**
+ * Default issuer and audience of the tokens.
+ */
+const DEFAULT_JWT_ISSUER = 'generic-backend';
+const DEFAULT_JWT_AUDIENCE = 'generic-backend';
+
+/**
+ * Configuration of the backend. It should be created once (using `createConfig` or `loadConfigFromEnv`)
+ * then given to the services and controllers requiring it.
+ */
+export interface BackendConfig {
+
+    /** Whether or not the backend runs in production. Insecure settings are rejected in production */
+    production: boolean;
+
+    /** Secret used to sign JWT (HS256) when no key ring is given */
+    jwtSecret: string;
+
+    /** Keys used to sign and verify JWT (optional, takes precedence over `jwtSecret`) */
+    keyRing?: KeyRing;
+
+    /** Issuer of the tokens (`iss` claim). Tokens issued by anyone else are rejected */
+    jwtIssuer: string;
+
+    /** Audience of the tokens (`aud` claim). Tokens intended for anyone else are rejected */
+    jwtAudience: string;
+
+    /** Lifetime of access tokens (in seconds) */
+    accessTokenLifetime: number;
+
+    /** Lifetime of refresh tokens (in seconds) */
+    refreshTokenLifetime: number;
+
+    /** Lifetime of two-factor authentication challenge tokens (in seconds) */
+    challengeTokenLifetime: number;
+
+    /** Whether or not users can log in using a single-use link sent by mail */
+    magicLinkLogin: boolean;
+
+    /** Lifetime of the single-use login links (in seconds) */
+    magicLinkLifetime: number;
+
+    /** Duration during which the security stamp of an user is cached when verifying tokens (in seconds, 0 disables the cache) */
+    securityStampCacheLifetime: number;
+
+    /** Secret used by legacy HMAC password hashes */
+    hmacSecret: string;
+
+    /** Algorithm used to hash new passwords */
+    hashAlgorithm: 'bcrypt' | 'scrypt';
+
+    /** Token required to create a BDE. If not set, anyone can create a BDE */
+    bdeCreationToken?: string;
+
+}
+
+/**
+ * Error thrown when the configuration is invalid or insecure.
+ */
+export class ConfigurationError extends Error {
+
+    constructor(public problems: string[]) {
+        super(`Invalid configuration : ${problems.join(' ')}`);
+    }
+
+}
+
+/**
+ * Checks the given configuration. In production, default or too short secrets are rejected.
+ *
+ * @throws ConfigurationError listing all the problems found
+ *
+ * @param config The configuration to check
+ */
+export function validateConfig(config: BackendConfig): void {
+    const problems: string[] = [];
+
+    if (config.hashAlgorithm !== 'bcrypt' && config.hashAlgorithm !== 'scrypt') {
+        problems.push(`Unknown hash algorithm '${config.hashAlgorithm}'.`);
+    }
+
+    const lifetimes: ('accessTokenLifetime' | 'refreshTokenLifetime' | 'challengeTokenLifetime' | 'magicLinkLifetime')[] = [
+        'accessTokenLifetime', 'refreshTokenLifetime', 'challengeTokenLifetime', 'magicLinkLifetime',
+    ];
+    for (let lifetime of lifetimes) {
+        if (!Number.isInteger(config[lifetime]) || config[lifetime] <= 0) {
+            problems.push(`The ${lifetime} must be a positive integer.`);
+        }
+    }
+
+    if (!Number.isInteger(config.securityStampCacheLifetime) || config.securityStampCacheLifetime < 0) {
+        problems.push('The securityStampCacheLifetime must be a positive integer or 0.');
+    }
+
+    if (!config.jwtIssuer || !config.jwtAudience) {
+        problems.push('The JWT issuer and audience must not be empty.');
+    }
+
+    if (config.production) {
+        if (!config.keyRing && (config.jwtSecret === DEFAULT_JWT_SECRET || config.jwtSecret.length < MIN_SECRET_LENGTH)) {
+            problems.push(`The JWT secret must be changed and contain at least ${MIN_SECRET_LENGTH} characters.`);
+        }
+        if (config.hmacSecret === DEFAULT_HMAC_SECRET) {
+            problems.push('The HMAC secret must be changed.');
+        }
+        if (!config.bdeCreationToken) {
+            problems.push('A BDE creation token is required.');
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigurationError(problems);
+    }
+}
+
+/**
+ * Creates a configuration from the given settings, using default values for missing ones.
+ *
+ * @throws ConfigurationError if the resulting configuration is invalid
+ *
+ * @param settings The settings to use
+ */
+export function createConfig(settings: Partial<BackendConfig> = {}): BackendConfig {
+    const config: BackendConfig = {
+        production: false,
+        jwtSecret: DEFAULT_JWT_SECRET,
+        jwtIssuer: DEFAULT_JWT_ISSUER,
+        jwtAudience: DEFAULT_JWT_AUDIENCE,
+        accessTokenLifetime: DEFAULT_ACCESS_TOKEN_LIFETIME,
+        refreshTokenLifetime: DEFAULT_REFRESH_TOKEN_LIFETIME,
+        challengeTokenLifetime: DEFAULT_CHALLENGE_TOKEN_LIFETIME,
+        securityStampCacheLifetime: DEFAULT_SECURITY_STAMP_CACHE_LIFETIME,
+        magicLinkLogin: false,
+        magicLinkLifetime: DEFAULT_MAGIC_LINK_LIFETIME,
+        hmacSecret: DEFAULT_HMAC_SECRET,
+        hashAlgorithm: 'bcrypt',
+        ... settings,
+    };
+    validateConfig(config);
+    return config;
+}
+
+/**
+ * Creates a configuration from the environment variables `NODE_ENV`, `JWT_SECRET`, `JWT_ISSUER`, `JWT_AUDIENCE`,
+ * `ACCESS_TOKEN_LIFETIME`, `REFRESH_TOKEN_LIFETIME`, `CHALLENGE_TOKEN_LIFETIME`, `SECURITY_STAMP_CACHE_LIFETIME`,
+ * `MAGIC_LINK_LOGIN`, `MAGIC_LINK_LIFETIME`, `HMAC_SECRET`, `HASH_ALGORITHM` and `BDE_CREATION_TOKEN`.
+ * The key ring can only be given using `createConfig`.
+ *
+ * @throws ConfigurationError if the resulting configuration is invalid
+ *
+ * @param env The environment variables
+ */
+export function loadConfigFromEnv(env: { [key: string]: string | undefined } = process.env): BackendConfig {
+    return createConfig({
+        production: env.NODE_ENV === 'production',
+        jwtSecret: env.JWT_SECRET || DEFAULT_JWT_SECRET,
+        jwtIssuer: env.JWT_ISSUER || DEFAULT_JWT_ISSUER,
+        jwtAudience: env.JWT_AUDIENCE || DEFAULT_JWT_AUDIENCE,
+        accessTokenLifetime: env.ACCESS_TOKEN_LIFETIME ? Number(env.ACCESS_TOKEN_LIFETIME) : DEFAULT_ACCESS_TOKEN_LIFETIME,
+        refreshTokenLifetime: env.REFRESH_TOKEN_LIFETIME ? Number(env.REFRESH_TOKEN_LIFETIME) : DEFAULT_REFRESH_TOKEN_LIFETIME,
+        challengeTokenLifetime: env.CHALLENGE_TOKEN_LIFETIME ? Number(env.CHALLENGE_TOKEN_LIFETIME) : DEFAULT_CHALLENGE_TOKEN_LIFETIME,
+        securityStampCacheLifetime: env.SECURITY_STAMP_CACHE_LIFETIME ? Number(env.SECURITY_STAMP_CACHE_LIFETIME) : DEFAULT_SECURITY_STAMP_CACHE_LIFETIME,
+        magicLinkLogin: env.MAGIC_LINK_LOGIN === 'true',
+        magicLinkLifetime: env.MAGIC_LINK_LIFETIME ? Number(env.MAGIC_LINK_LIFETIME) : DEFAULT_MAGIC_LINK_LIFETIME,
+        hmacSecret: env.HMAC_SECRET || DEFAULT_HMAC_SECRET,
+        hashAlgorithm: <BackendConfig['hashAlgorithm']>(env.HASH_ALGORITHM || 'bcrypt'),
+        bdeCreationToken: env.BDE_CREATION_TOKEN || undefined,
+    });
+}
@@ -0,0 +1,148 @@
+import chai from 'chai';
+import { mock, instance, when, anything, reset, verify, capture } from 'ts-mockito';
+import { ApiKeysService, ApiKeysServiceError, ApiKeysErrorType, AuthenticationService, JWTClaims, LoggingService } from '../services';
+import { ApiKeysController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { hashOneTimeToken } from '../utils/one-time-token';
+import { Permissions, ApiKey } from '../models';
+import { DateTime } from 'luxon';
+
+const { expect } = chai;
+
+describe('API keys controller', () => {
+
+    const apiKeysServiceMock = mock<ApiKeysService>();
+    const authServiceMock = mock<AuthenticationService>();
+    const loggingServiceMock = mock<LoggingService>();
+    const controller = new ApiKeysController(
+        instance(apiKeysServiceMock),
+        instance(authServiceMock),
+        instance(loggingServiceMock)
+    );
+
+    beforeEach(() => {
+        reset(apiKeysServiceMock);
+        reset(authServiceMock);
+    });
+
+    const jwtClaims: JWTClaims = {
+        bdeUUID: 'bde-uuid',
+        firstname: 'Firstname',
+        lastname: 'Lastname',
+        permissions: [Permissions.MANAGE_BDE],
+        uuid: 'the-uuid',
+    };
+
+    const validRequestBody = {
+        name: 'Kiosk',
+        bde: 'bde-uuid',
+        permissions: ['manage_events'],
+    };
+
+    const apiKey: ApiKey = {
+        apiKeyUUID: 'api-key-uuid',
+        bdeUUID: 'bde-uuid',
+        name: 'Kiosk',
+        hashedKey: 'the-hash',
+        permissions: [Permissions.MANAGE_EVENTS],
+        createdAt: DateTime.local(),
+    };
+
+    describe('create', () => {
+
+        it('should return unauthorized if no token is given', async () => {
+            const result = await controller.create(validRequestBody);
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return forbidden if user can not manage API keys of the BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [Permissions.MANAGE_PERMISSIONS] });
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+            verify(apiKeysServiceMock.create(anything())).never();
+        });
+
+        it('should return bad request if a non-modifiable permission is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, permissions: ['manage_bde'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return bad request if the BDE does not exist', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.create(anything())).thenReject(new ApiKeysServiceError('', ApiKeysErrorType.BDE_NOT_EXISTS));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should store the hash of the key and return the key once', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.create(anything())).thenCall((created: ApiKey) => Promise.resolve(created));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Created);
+            const [created] = capture(apiKeysServiceMock.create).last();
+            expect(created.hashedKey).to.eq(hashOneTimeToken(result.body['key']));
+            expect(created.permissions).to.deep.eq([Permissions.MANAGE_EVENTS]);
+            expect(result.body).to.not.have.property('hashedKey');
+            expect(result.body['permissions']).to.deep.eq(['manage_events']);
+        });
+
+    });
+
+    describe('findByBDE', () => {
+
+        it('should return forbidden if user can not manage API keys of the BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.findByBDE('other-bde-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should list API keys without their hash', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.findByBDE('bde-uuid')).thenResolve([apiKey]);
+            const result = await controller.findByBDE('bde-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.have.length(1);
+            expect(result.body[0]).to.include({ apiKeyUUID: 'api-key-uuid', lastUsedAt: null });
+            expect(result.body[0]).to.not.have.property('hashedKey');
+        });
+
+    });
+
+    describe('revoke', () => {
+
+        it('should return not found if the API key does not exist', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.findByUUID('api-key-uuid')).thenReject(new ApiKeysServiceError('', ApiKeysErrorType.API_KEY_NOT_EXISTS));
+            const result = await controller.revoke('api-key-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return forbidden if the API key belongs to an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.findByUUID('api-key-uuid')).thenResolve({ ... apiKey, bdeUUID: 'other-bde-uuid' });
+            const result = await controller.revoke('api-key-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+            verify(apiKeysServiceMock.delete(anything())).never();
+        });
+
+        it('should delete the API key', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(apiKeysServiceMock.findByUUID('api-key-uuid')).thenResolve(apiKey);
+            const result = await controller.revoke('api-key-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotContent);
+            verify(apiKeysServiceMock.delete('api-key-uuid')).once();
+        });
+
+    });
+
+});
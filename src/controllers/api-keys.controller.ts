@@ -0,0 +1,181 @@
+import { ApiKeysService, ApiKeysErrorType, AuthenticationService, LoggingService } from '../services';
+import { ValidatorBuilder } from '../validation';
+import { ApiKey, Permission } from '../models';
+import { v4 as uuid } from 'uuid';
+import { DateTime } from 'luxon';
+import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
+import { canManageApiKeys, permissionsFromStrings } from '../utils/permissions';
+import { generateApiKey } from '../utils/one-time-token';
+
+interface ApiKeyBodyRequest { name: string, bde: string, permissions: string[] };
+
+export class ApiKeysController {
+
+    private static API_KEY_VALIDATOR = ValidatorBuilder
+                                        .new<ApiKeyBodyRequest>()
+                                        .requires('name').toBeString().withMinLength(1).withMaxLength(50)
+                                        .requires('bde').toBeString().withMinLength(1)
+                                        .requires('permissions').toBeArray().withEachElement().toBeString().withMinLength(1)
+                                        .build();
+
+    constructor(
+        private apiKeysService: ApiKeysService,
+        private authService: AuthenticationService,
+        private loggingService: LoggingService
+    ) {}
+
+    /**
+     * Converts the given permissions names to permissions. Only modifiable permissions can be given to an API key.
+     * 
+     * @param names The permissions names
+     * @returns the permissions, or null if a name is unknown or matches a non-modifiable permission
+     */
+    private toApiKeyPermissions(names: string[]): Permission[] | null {
+        const uniqueNames = Array.from(new Set(names));
+        const permissions = permissionsFromStrings(uniqueNames);
+        if (permissions.length !== uniqueNames.length || permissions.some((p) => !p.modifiable)) {
+            return null;
+        }
+        return permissions;
+    }
+
+    /**
+     * Serializes the given API key, only keeping permissions names and never exposing the hash of the key.
+     * 
+     * @param apiKey The API key to serialize
+     */
+    private serialize(apiKey: ApiKey) {
+        return {
+            apiKeyUUID: apiKey.apiKeyUUID,
+            bdeUUID: apiKey.bdeUUID,
+            name: apiKey.name,
+            permissions: apiKey.permissions.map((p) => p.name),
+            createdAt: apiKey.createdAt,
+            lastUsedAt: apiKey.lastUsedAt || null,
+        };
+    }
+
+    /**
+     * Handles a request that aims to create an API key.
+     * The generated key is only returned by this request.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to identify user
+     */
+    async create(body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        const result = ApiKeysController.API_KEY_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const permissions = this.toApiKeyPermissions(result.value.permissions);
+        if (!permissions) {
+            return httpCode.badRequest('Unknown or non-modifiable permission given.');
+        }
+
+        if (!canManageApiKeys(claims, result.value.bde)) {
+            return httpCode.forbidden('You do not have the permission to create an API key for this BDE.');
+        }
+
+        const { key, hash } = generateApiKey();
+        let apiKey: ApiKey = {
+            apiKeyUUID: uuid(),
+            bdeUUID: result.value.bde,
+            name: result.value.name.trim(),
+            hashedKey: hash,
+            permissions,
+            createdAt: DateTime.local(),
+        };
+
+        try {
+            apiKey = await this.apiKeysService.create(apiKey);
+            return httpCode.created({ ... this.serialize(apiKey), key });
+        } catch (e) {
+            if (e.type === ApiKeysErrorType.BDE_NOT_EXISTS) {
+                return httpCode.badRequest('Given bde UUID does not exist.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to create an API key. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to list all API keys of a BDE.
+     * This method always resolves.
+     * 
+     * @param bdeUUID The UUID of the BDE to list API keys of
+     * @param token The JWT to identify user
+     */
+    async findByBDE(bdeUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        if (!canManageApiKeys(claims, bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to list API keys of this BDE.');
+        }
+
+        try {
+            const apiKeys = await this.apiKeysService.findByBDE(bdeUUID);
+            return httpCode.ok(apiKeys.map((apiKey) => this.serialize(apiKey)));
+        } catch (e) {
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to list API keys. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to revoke an API key. Once revoked, the key can't be used anymore.
+     * This method always resolves.
+     * 
+     * @param apiKeyUUID The UUID of the API key to revoke
+     * @param token The JWT to identify user
+     */
+    async revoke(apiKeyUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        let apiKey: ApiKey;
+        try {
+            apiKey = await this.apiKeysService.findByUUID(apiKeyUUID);
+        } catch (e) {
+            if (e.type === ApiKeysErrorType.API_KEY_NOT_EXISTS) {
+                return httpCode.notFound(`No API key with uuid ${apiKeyUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to revoke the API key. Contact an administrator or retry later.');
+        }
+
+        if (!canManageApiKeys(claims, apiKey.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to revoke this API key.');
+        }
+
+        try {
+            await this.apiKeysService.delete(apiKeyUUID);
+            return httpCode.noContent();
+        } catch (e) {
+            if (e.type === ApiKeysErrorType.API_KEY_NOT_EXISTS) {
+                return httpCode.notFound(`No API key with uuid ${apiKeyUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to revoke the API key. Contact an administrator or retry later.');
+        }
+    }
+
+}
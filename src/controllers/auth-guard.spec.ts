@@ -0,0 +1,69 @@
+import chai from 'chai';
+import { mock, instance, when, reset } from 'ts-mockito';
+import { AuthenticationService, JWTClaims } from '../services';
+import { authenticate } from './auth-guard';
+import { HttpCode } from '../utils/http-code';
+
+const { expect } = chai;
+
+describe('Authentication guard', () => {
+
+    const authServiceMock = mock<AuthenticationService>();
+
+    const claims: JWTClaims = {
+        uuid: 'user-uuid',
+        bdeUUID: 'bde-uuid',
+        firstname: 'John',
+        lastname: 'Doe',
+        permissions: [],
+    };
+
+    beforeEach(() => {
+        reset(authServiceMock);
+    });
+
+    it('should return unauthorized if no token is given', async () => {
+        const result = await authenticate(instance(authServiceMock), undefined);
+
+        expect(result.authenticated).to.be.false;
+        expect(result.authenticated === false && result.response.code).to.eq(HttpCode.Unauthorized);
+    });
+
+    it('should return unauthorized if the token is invalid', async () => {
+        when(authServiceMock.verifyToken('the-token')).thenReject(new Error('invalid signature'));
+        const result = await authenticate(instance(authServiceMock), 'the-token');
+
+        expect(result.authenticated).to.be.false;
+        expect(result.authenticated === false && result.response.code).to.eq(HttpCode.Unauthorized);
+    });
+
+    it('should return the claims of the token', async () => {
+        when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+        const result = await authenticate(instance(authServiceMock), 'the-token');
+
+        expect(result).to.deep.eq({ authenticated: true, claims });
+    });
+
+    it('should accept an API key by default', async () => {
+        when(authServiceMock.verifyToken('the-api-key')).thenResolve({ ... claims, apiKey: true });
+        const result = await authenticate(instance(authServiceMock), 'the-api-key');
+
+        expect(result.authenticated).to.be.true;
+    });
+
+    it('should return forbidden if an API key is given while API keys are not allowed', async () => {
+        when(authServiceMock.verifyToken('the-api-key')).thenResolve({ ... claims, apiKey: true });
+        const result = await authenticate(instance(authServiceMock), 'the-api-key', { allowApiKeys: false });
+
+        expect(result.authenticated).to.be.false;
+        expect(result.authenticated === false && result.response.code).to.eq(HttpCode.Forbidden);
+    });
+
+    it('should accept an user token while API keys are not allowed', async () => {
+        when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+        const result = await authenticate(instance(authServiceMock), 'the-token', { allowApiKeys: false });
+
+        expect(result).to.deep.eq({ authenticated: true, claims });
+    });
+
+});
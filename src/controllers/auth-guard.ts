@@ -0,0 +1,55 @@
+import { AuthenticationService, JWTClaims } from '../services';
+import * as httpCode from '../utils/http-code';
+
+/**
+ * Outcome of the authentication of a request : either the claims of the authenticated user,
+ * or the response to send back if the request can't be authenticated.
+ */
+export type Authentication =
+    { authenticated: true, claims: JWTClaims } |
+    { authenticated: false, response: httpCode.Response };
+
+/**
+ * Options of the authentication guard.
+ */
+export interface AuthenticationOptions {
+
+    /**
+     * Whether or not API keys are accepted (true by default). Handlers acting on behalf of the authenticated user itself
+     * (voting, changing its password...) must refuse them, as the claims of an API key don't identify an user.
+     */
+    allowApiKeys?: boolean;
+
+}
+
+/**
+ * Authenticates a request from the token it has been sent with. All controllers rely on this guard
+ * so that unauthenticated requests are answered the same way :
+ * - no token given : unauthorized
+ * - invalid, expired or revoked token : unauthorized
+ * - API key given while API keys are not allowed : forbidden
+ *
+ * Handlers must check permissions themselves and answer forbidden if the authenticated user is not allowed to act.
+ * This function always resolves.
+ *
+ * @param authService The service used to verify tokens
+ * @param token The access token (or API key) the request has been sent with
+ * @param options The guard options
+ */
+export async function authenticate(authService: AuthenticationService, token?: string, options: AuthenticationOptions = {}): Promise<Authentication> {
+    if (!token) {
+        return { authenticated: false, response: httpCode.unauthorized('You must authenticate.') };
+    }
+
+    let claims: JWTClaims;
+    try {
+        claims = await authService.verifyToken(token);
+    } catch (_) {
+        return { authenticated: false, response: httpCode.unauthorized('The given token is invalid.') };
+    }
+
+    if (claims.apiKey && options.allowApiKeys === false) {
+        return { authenticated: false, response: httpCode.forbidden('This resource can not be accessed using an API key.') };
+    }
+    return { authenticated: true, claims };
+}
@@ -4,6 +4,7 @@ import chaiAsPromised from 'chai-as-promised';
 import {mock, instance, verify, when, anything, reset} from 'ts-mockito';
 import {HttpCode} from '../utils/http-code';
 import { BDEService, BDEErrorType, BDEServiceError, MailingService, LoggingService } from '../services';
+import { createConfig } from '../config';
 
 chai.use(chaiAsPromised);
 
@@ -14,7 +15,7 @@ describe('BDE controller', () => {
     const serviceMock = mock<BDEService>();
     const mailingServiceMock = mock<MailingService>();
     const loggingServiceMock = mock<LoggingService>();
-    const controller = new BDEController(instance(serviceMock), instance(mailingServiceMock), instance(loggingServiceMock));
+    const controller = new BDEController(instance(serviceMock), instance(mailingServiceMock), instance(loggingServiceMock), createConfig());
 
     beforeEach(() => {
         reset(serviceMock);
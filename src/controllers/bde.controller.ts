@@ -3,6 +3,7 @@ import { ValidatorBuilder } from '../validation'
 import { BDE, UnregisteredUser, Permissions } from "../models";
 import { v4 as uuid } from 'uuid';
 import * as httpCode from '../utils/http-code';
+import { BackendConfig } from '../config';
 
 export class BDEController {
 
@@ -12,6 +13,7 @@ export class BDEController {
                                         name: string,
                                         ownerEmail: string,
                                         specialties: { name: string, minYear: number, maxYear: number}[]
+                                        enforceTwoFactor?: boolean,
                                         token: string,
                                     }>()
                                     .requires("name").toBeString().withMinLength(1).withMaxLength(30)
@@ -23,13 +25,15 @@ export class BDEController {
                                             .requires('maxYear').toBeInteger().withMinValue(1).withMaxValue(5)
                                             .build()
                                     )
+                                    .optional('enforceTwoFactor').toBeBoolean()
                                     .optional('token').toBeString().withMinLength(1)
                                     .build();
 
     constructor(
         private bdeService: BDEService,
         private mailingService: MailingService,
-        private loggingService: LoggingService
+        private loggingService: LoggingService,
+        private config: BackendConfig
     ) {}
 
     /**
@@ -45,7 +49,7 @@ export class BDEController {
         }
 
         /* If a token is required and that given token invalid, we reject */
-        if (process.env.BDE_CREATION_TOKEN && process.env.BDE_CREATION_TOKEN !== result.value.token) {
+        if (this.config.bdeCreationToken && this.config.bdeCreationToken !== result.value.token) {
             return httpCode.unauthorized('The specified token is invalid.');
         }
 
@@ -53,6 +57,7 @@ export class BDEController {
             bdeName: result.value.name,
             specialties: result.value.specialties.map((spe) => ({ name: spe.name, minYear: spe.minYear, maxYear: spe.maxYear })),
             bdeUUID: uuid(),
+            enforceTwoFactor: result.value.enforceTwoFactor || false,
         };
 
         if (bdeObject.specialties.some((spe) => spe.minYear > spe.maxYear)) {
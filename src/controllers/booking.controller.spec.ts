@@ -0,0 +1,252 @@
+import chai from 'chai';
+import { mock, instance, when, anything, reset, verify, deepEqual } from 'ts-mockito';
+import { BookingsService, BookingsServiceError, BookingsErrorType, EventsService, EventsServiceError, EventsErrorType, AuthenticationService, LoggingService, UsersService, MailingService, JWTClaims } from '../services';
+import { BookingsController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { Permissions, Event, BookingState, User } from '../models';
+import { DateTime } from 'luxon';
+
+const { expect } = chai;
+
+describe('Bookings controller', () => {
+
+    const bookingsServiceMock = mock<BookingsService>();
+    const eventsServiceMock = mock<EventsService>();
+    const authServiceMock = mock<AuthenticationService>();
+    const loggingServiceMock = mock<LoggingService>();
+    const usersServiceMock = mock<UsersService>();
+    const mailingServiceMock = mock<MailingService>();
+    const controller = new BookingsController(
+        instance(bookingsServiceMock),
+        instance(eventsServiceMock),
+        instance(authServiceMock),
+        instance(loggingServiceMock),
+        instance(usersServiceMock),
+        instance(mailingServiceMock)
+    );
+
+    beforeEach(() => {
+        reset(bookingsServiceMock);
+        reset(eventsServiceMock);
+        reset(authServiceMock);
+        reset(usersServiceMock);
+        reset(mailingServiceMock);
+    });
+
+    describe('create', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'user-uuid',
+        };
+
+        const fullEvent: Event = {
+            eventUUID: 'event-uuid',
+            eventName: 'Event',
+            bdeUUID: 'bde-uuid',
+            isDraft: false,
+            capacity: 1,
+        };
+
+        const booking = { eventUUID: 'event-uuid', userUUID: 'user-uuid', state: BookingState.CONFIRMED };
+
+        beforeEach(() => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(eventsServiceMock.findByUUID('event-uuid')).thenResolve(fullEvent);
+            when(bookingsServiceMock.create(anything(), true)).thenResolve({ ... booking, state: BookingState.WAITING });
+            when(bookingsServiceMock.create(anything(), false)).thenReject(new BookingsServiceError('', BookingsErrorType.EVENT_FULL));
+        });
+
+        it('should put the booking on the waiting list of a full event by default', async () => {
+            const result = await controller.create('event-uuid', 'user-uuid', {}, 'the-token');
+
+            verify(bookingsServiceMock.create(deepEqual(booking), true)).once();
+            expect(result.code).to.eq(HttpCode.Created);
+            expect(result.body).to.have.property('state', BookingState.WAITING);
+        });
+
+        it('should put the booking on the waiting list of a full event if the waiting list is accepted', async () => {
+            const result = await controller.create('event-uuid', 'user-uuid', { waitingList: true }, 'the-token');
+
+            verify(bookingsServiceMock.create(deepEqual(booking), true)).once();
+            expect(result.code).to.eq(HttpCode.Created);
+            expect(result.body).to.have.property('state', BookingState.WAITING);
+        });
+
+        it('should return "forbidden" http code if the event is full and the waiting list is refused', async () => {
+            const result = await controller.create('event-uuid', 'user-uuid', { waitingList: false }, 'the-token');
+
+            verify(bookingsServiceMock.create(deepEqual(booking), false)).once();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code if the waiting list choice is not a boolean', async () => {
+            const result = await controller.create('event-uuid', 'user-uuid', { waitingList: 'no' }, 'the-token');
+
+            verify(bookingsServiceMock.create(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+    });
+
+    describe('delete', () => {
+
+        const ownerClaims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'user-uuid',
+        };
+
+        const managerClaims: JWTClaims = {
+            ... ownerClaims,
+            permissions: [Permissions.MANAGE_EVENTS],
+            uuid: 'manager-uuid',
+        };
+
+        const event: Event = {
+            eventUUID: 'event-uuid',
+            eventName: 'Event',
+            bdeUUID: 'bde-uuid',
+            isDraft: false,
+            cancellationDeadline: DateTime.local().plus({ days: 1 }),
+        };
+
+        const pastDeadlineEvent: Event = { ... event, cancellationDeadline: DateTime.local().minus({ days: 1 }) };
+
+        const user: User = {
+            userUUID: 'user-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            password: 'password',
+            specialtyName: 'IG',
+            specialtyYear: 3,
+            permissions: [],
+            member: true,
+        };
+
+        beforeEach(() => {
+            when(authServiceMock.verifyToken('owner-token')).thenResolve(ownerClaims);
+            when(authServiceMock.verifyToken('manager-token')).thenResolve(managerClaims);
+            when(eventsServiceMock.findByUUID('event-uuid')).thenResolve(event);
+            when(bookingsServiceMock.delete('user-uuid', 'event-uuid')).thenResolve({ eventUUID: 'event-uuid', userUUID: 'user-uuid', state: BookingState.CONFIRMED });
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve(user);
+        });
+
+        it('should return "unauthorized" http code if no token is given', async () => {
+            const result = await controller.delete('event-uuid', 'user-uuid');
+
+            verify(bookingsServiceMock.delete(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "not found" http code if the event does not exist', async () => {
+            when(eventsServiceMock.findByUUID('event-uuid')).thenReject(new EventsServiceError('', EventsErrorType.EVENT_NOT_EXISTS));
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return "forbidden" http code if user tries to delete the booking of an other user without permission', async () => {
+            when(authServiceMock.verifyToken('other-token')).thenResolve({ ... ownerClaims, uuid: 'other-uuid' });
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'other-token');
+
+            verify(bookingsServiceMock.delete(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code if an API key without permission is used', async () => {
+            when(authServiceMock.verifyToken('the-api-key')).thenResolve({ ... ownerClaims, apiKey: true });
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'the-api-key');
+
+            verify(bookingsServiceMock.delete(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code if the owner cancels after the cancellation deadline', async () => {
+            when(eventsServiceMock.findByUUID('event-uuid')).thenResolve(pastDeadlineEvent);
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            verify(bookingsServiceMock.delete(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should let the owner cancel its booking before the cancellation deadline without notifying it', async () => {
+            const result = await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            expect(result.code).to.eq(HttpCode.NotContent);
+            verify(bookingsServiceMock.delete('user-uuid', 'event-uuid')).once();
+            verify(mailingServiceMock.sendBookingCancellationMail(anything(), anything())).never();
+        });
+
+        it('should let an event manager delete a booking after the cancellation deadline and notify the owner', async () => {
+            when(eventsServiceMock.findByUUID('event-uuid')).thenResolve(pastDeadlineEvent);
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'manager-token');
+
+            expect(result.code).to.eq(HttpCode.NotContent);
+            verify(bookingsServiceMock.delete('user-uuid', 'event-uuid')).once();
+            verify(mailingServiceMock.sendBookingCancellationMail(user, pastDeadlineEvent)).once();
+        });
+
+        it('should return "forbidden" http code if an event manager of an other BDE tries to delete a booking', async () => {
+            when(authServiceMock.verifyToken('manager-token')).thenResolve({ ... managerClaims, bdeUUID: 'other-bde-uuid' });
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'manager-token');
+
+            verify(bookingsServiceMock.delete(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "not found" http code if bookings service rejects with BOOKING_NOT_EXISTS error', async () => {
+            when(bookingsServiceMock.delete('user-uuid', 'event-uuid')).thenReject(new BookingsServiceError('', BookingsErrorType.BOOKING_NOT_EXISTS));
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return "internal server error" http code if bookings service rejects with INTERNAL error', async () => {
+            when(bookingsServiceMock.delete('user-uuid', 'event-uuid')).thenReject(new BookingsServiceError('', BookingsErrorType.INTERNAL));
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            expect(result.code).to.eq(HttpCode.InternalServerError);
+        });
+
+        it('should promote a waiting booking when a confirmed booking is deleted', async () => {
+            await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            verify(bookingsServiceMock.promoteWaitingBooking('event-uuid')).once();
+        });
+
+        it('should not promote a waiting booking when a waiting booking is deleted', async () => {
+            when(bookingsServiceMock.delete('user-uuid', 'event-uuid')).thenResolve({ eventUUID: 'event-uuid', userUUID: 'user-uuid', state: BookingState.WAITING });
+
+            await controller.delete('event-uuid', 'user-uuid', 'owner-token');
+
+            verify(bookingsServiceMock.promoteWaitingBooking(anything())).never();
+        });
+
+        it('should still succeed if promoting a waiting booking or notifying the owner fails', async () => {
+            when(bookingsServiceMock.promoteWaitingBooking('event-uuid')).thenReject(new BookingsServiceError('', BookingsErrorType.INTERNAL));
+            when(mailingServiceMock.sendBookingCancellationMail(anything(), anything())).thenReject(new Error());
+
+            const result = await controller.delete('event-uuid', 'user-uuid', 'manager-token');
+
+            expect(result.code).to.eq(HttpCode.NotContent);
+        });
+
+    });
+
+});
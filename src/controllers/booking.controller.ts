@@ -1,23 +1,27 @@
-import { BookingsService, AuthenticationService, LoggingService, JWTClaims, EventsService, EventsErrorType, BookingsErrorType } from "../services";
+import { BookingsService, AuthenticationService, LoggingService, EventsService, EventsErrorType, BookingsErrorType, UsersService, MailingService } from "../services";
 import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
 import { ValidatorBuilder } from '../validation';
-import { Booking, Event } from "../models";
+import { Booking, BookingState, Event } from "../models";
 import { canManageBooking, canManageEvents } from "../utils/permissions";
 import { DateTime } from 'luxon';
 
 export class BookingsController  {
 
-    private static BOOKING_VALIDATOR = ValidatorBuilder.new<{ user: string, event: string, force?: boolean }>()
+    private static BOOKING_VALIDATOR = ValidatorBuilder.new<{ user: string, event: string, force?: boolean, waitingList?: boolean }>()
                                                         .requires('user').toBeString().withMinLength(1).withMaxLength(36)
                                                         .requires('event').toBeString().withMinLength(1).withMaxLength(36)
                                                         .optional('force').toBeBoolean()
+                                                        .optional('waitingList').toBeBoolean()
                                                         .build();
 
     constructor(
         private bookingService: BookingsService,
         private eventsService: EventsService,
         private authService: AuthenticationService,
-        private loggingService: LoggingService
+        private loggingService: LoggingService,
+        private usersService: UsersService,
+        private mailingService: MailingService
     ) {}
 
     canBookNow(event: Event) {
@@ -33,6 +37,10 @@ export class BookingsController  {
         return true;
     }
 
+    canCancelNow(event: Event) {
+        return !event.cancellationDeadline || event.cancellationDeadline > DateTime.local();
+    }
+
     /**
      * Handles a request that aims to create a booking.
      * This method always resolves.
@@ -49,18 +57,11 @@ export class BookingsController  {
             event: eventUUID,
         };
 
-        /* If no token were given, we can authenticate user  */
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
-        }
-
-        /* We try to decode given token to authenticate user */
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
         /* Validating request body */
         const result = BookingsController.BOOKING_VALIDATOR.validate(body);
@@ -71,6 +72,7 @@ export class BookingsController  {
         let booking: Booking = {
             eventUUID: result.value.event,
             userUUID: result.value.user,
+            state: BookingState.CONFIRMED,
         };
 
         /* Retrieving event */
@@ -98,9 +100,9 @@ export class BookingsController  {
             return httpCode.forbidden('It is not possible to book this event now.');
         }
 
-        /* Creating the booking */
+        /* Creating the booking (if the event is full, the user is put on the waiting list unless this was refused) */
         try {
-            booking = await this.bookingService.create(booking);
+            booking = await this.bookingService.create(booking, result.value.waitingList !== false);
             return httpCode.created(booking);
         } catch (e) {
             if (e.type === BookingsErrorType.EVENT_NOT_EXISTS) {
@@ -109,6 +111,8 @@ export class BookingsController  {
                 return httpCode.badRequest('Specified user UUID is invalid.');
             } else if (e.type === BookingsErrorType.BOOKING_ALREADY_EXISTS) {
                 return httpCode.badRequest('This booking already exists.');
+            } else if (e.type === BookingsErrorType.EVENT_FULL) {
+                return httpCode.forbidden('This event is full.');
             }
             this.loggingService.error(e);
             return httpCode.internalServerError('Unable to create booking. Contact an adminstrator or retry later.');
@@ -126,18 +130,11 @@ export class BookingsController  {
      */
     async findOne(eventUUID: string, userUUID: string, token?: string): Promise<httpCode.Response> {
 
-        /* If no token is given, we can't authenticate user */
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
-        }
-
-        /* Trying to authenticate user */
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
         /* Fetching event related to the booking */
         let event: Event;
@@ -170,20 +167,90 @@ export class BookingsController  {
         }
     }
 
-    async findUserBookings(userUUID: string, token?: string): Promise<httpCode.Response> {
-        /* If no token is given, we can't authenticate user */
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
+    /**
+     * Handles a request that aims to delete a booking.
+     * An user can cancel its own booking until the event cancellation deadline. An user having the permission
+     * to manage events of the BDE organizing the event can delete any booking at any time, the booking owner
+     * is then notified.
+     * If the deleted booking was confirmed, the first waiting booking (if any) is promoted.
+     * This method always resolves.
+     * 
+     * @param eventUUID The event UUID the booking is for
+     * @param userUUID The user UUID the booking is from
+     * @param token The JWT to authenticate user
+     */
+    async delete(eventUUID: string, userUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
-        /* Trying to authenticate user */
-        let jwtClaims: JWTClaims;
+        /* Fetching event related to the booking */
+        let event: Event;
         try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+            event = await this.eventsService.findByUUID(eventUUID);
+        } catch (e) {
+            if (e.type === EventsErrorType.EVENT_NOT_EXISTS) {
+                return httpCode.notFound('Event does not exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete booking. Contact an adminstrator or retry later.');
+        }
+
+        /* Check deletion permission : owner can only cancel until the deadline, event managers can always delete */
+        const isManager = canManageEvents(jwtClaims, event.bdeUUID);
+        const isOwner = !jwtClaims.apiKey && jwtClaims.uuid === userUUID;
+        if (!isManager && !isOwner) {
+            return httpCode.forbidden('You do not have permission to delete this booking.');
         }
 
+        if (!isManager && !this.canCancelNow(event)) {
+            return httpCode.forbidden('It is not possible to cancel this booking anymore.');
+        }
+
+        /* Deleting the booking */
+        let booking: Booking;
+        try {
+            booking = await this.bookingService.delete(userUUID, eventUUID);
+        } catch (e) {
+            if (e.type === BookingsErrorType.BOOKING_NOT_EXISTS) {
+                return httpCode.notFound('This booking does not exist.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete booking. Contact an adminstrator or retry later.');
+        }
+
+        /* A seat has been released, the first waiting user gets it */
+        if (booking.state === BookingState.CONFIRMED) {
+            try {
+                await this.bookingService.promoteWaitingBooking(eventUUID);
+            } catch (e) {
+                this.loggingService.error('Unable to promote waiting booking.', e);
+            }
+        }
+
+        /* Notifying the owner its booking has been deleted by someone else */
+        if (!isOwner) {
+            try {
+                const user = await this.usersService.findByUUID(userUUID);
+                await this.mailingService.sendBookingCancellationMail(user, event);
+            } catch (e) {
+                this.loggingService.error('Unable to notify user of booking cancellation.', e);
+            }
+        }
+
+        return httpCode.noContent();
+    }
+
+    async findUserBookings(userUUID: string, token?: string): Promise<httpCode.Response> {
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
         /* Retrieve bookings */
         let booking: (Booking & Event)[];
         try {
@@ -200,18 +267,11 @@ export class BookingsController  {
     }
 
     async findEventBookings(eventUUID: string, token?: string): Promise<httpCode.Response> {
-        /* If no token is given, we can't authenticate user */
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
-        }
-
-        /* Trying to authenticate user */
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
         /* Retrieve bookings */
         let booking: (Booking & Event)[];
@@ -0,0 +1,329 @@
+import chai from 'chai';
+import { mock, instance, when, anything, reset, verify } from 'ts-mockito';
+import { ElectionsService, AuthenticationService, ElectionsServiceError, JWTClaims, ElectionsErrorType, LoggingService, VotesService, UsersService } from '../services';
+import { ElectionsController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { Permissions, Election } from '../models';
+import { DateTime } from 'luxon';
+
+const { expect } = chai;
+
+describe('Elections controller', () => {
+
+    const electionsServiceMock = mock<ElectionsService>();
+    const authServiceMock = mock<AuthenticationService>();
+    const votesServiceMock = mock<VotesService>();
+    const usersServiceMock = mock<UsersService>();
+    const loggingServiceMock = mock<LoggingService>();
+    const controller = new ElectionsController(
+        instance(electionsServiceMock),
+        instance(votesServiceMock),
+        instance(usersServiceMock),
+        instance(authServiceMock),
+        instance(loggingServiceMock)
+    );
+
+    beforeEach(() => {
+        reset(electionsServiceMock);
+        reset(votesServiceMock);
+        reset(usersServiceMock);
+        reset(authServiceMock);
+    });
+
+    const jwtClaims: JWTClaims = {
+        bdeUUID: 'bde-uuid',
+        firstname: 'Firstname',
+        lastname: 'Lastname',
+        permissions: [Permissions.MANAGE_ELECTIONS],
+        uuid: 'the-uuid',
+    };
+
+    const validRequestBody = {
+        title: 'BDE election',
+        bde: 'bde-uuid',
+        lists: ['allintech', 'toutankhatech'],
+        opening: '2020-10-01T08:00:00',
+        closing: '2020-10-02T18:00:00',
+        blankVoteAllowed: true,
+    };
+
+    describe('create', () => {
+
+        it('should return "unauthorized" http code if no token is given', async () => {
+            const result = await controller.create(validRequestBody);
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "forbidden" http code when user does not have required permission', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [Permissions.MANAGE_EVENTS] });
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code when user tries to create an election for an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, bde: 'other-bde-uuid' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code if no list is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, lists: [] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('lists');
+        });
+
+        it('should return "bad request" http code if lists names are duplicated', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, lists: ['allintech', 'allintech'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code if opening is not before closing', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, closing: validRequestBody.opening }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code if elections service rejects with BDE_NOT_EXISTS error', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.create(anything())).thenReject(new ElectionsServiceError('', ElectionsErrorType.BDE_NOT_EXISTS));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "created" http code if elections service resolves', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.create(anything())).thenCall((election: Election) => Promise.resolve(election));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            verify(electionsServiceMock.create(anything())).once();
+            expect(result.code).to.eq(HttpCode.Created);
+            expect(result.body).to.have.property('title', validRequestBody.title);
+        });
+
+    });
+
+    describe('patchElection', () => {
+
+        const openedElection: Election = {
+            electionUUID: 'election-uuid',
+            bdeUUID: 'bde-uuid',
+            title: 'BDE election',
+            lists: ['allintech', 'toutankhatech'],
+            opening: DateTime.local().minus({ days: 1 }),
+            closing: DateTime.local().plus({ days: 1 }),
+            blankVoteAllowed: true,
+            resultsPublished: false,
+        };
+
+        const openedElectionBody = {
+            ... validRequestBody,
+            opening: openedElection.opening.toISO(),
+            closing: openedElection.closing.toISO(),
+        };
+
+        const closedElection: Election = {
+            ... openedElection,
+            opening: DateTime.local().minus({ days: 2 }),
+            closing: DateTime.local().minus({ days: 1 }),
+            resultsPublished: true,
+        };
+
+        const closedElectionBody = {
+            ... validRequestBody,
+            opening: closedElection.opening.toISO(),
+            closing: closedElection.closing.toISO(),
+        };
+
+        it('should return "not found" http code if elections service rejects with ELECTION_NOT_EXISTS error', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenReject(new ElectionsServiceError('', ElectionsErrorType.ELECTION_NOT_EXISTS));
+            const result = await controller.patchElection('election-uuid', validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return "bad request" http code when trying to change lists of an opened election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, lists: ['allintech'] }, 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "ok" http code when lists of an opened election remain the same', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            when(electionsServiceMock.update(anything())).thenCall((election: Election) => Promise.resolve(election));
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, title: 'New title' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.have.property('title', 'New title');
+        });
+
+        it('should return "bad request" http code when trying to change the opening date of an opened election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, opening: openedElection.opening.plus({ hours: 1 }).toISO() }, 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when trying to toggle blank vote of an opened election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, blankVoteAllowed: false }, 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when trying to bring forward the closing date of an opened election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, closing: openedElection.closing.minus({ hours: 1 }).toISO() }, 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "ok" http code when postponing the closing date of an open election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openedElection);
+            when(electionsServiceMock.update(anything())).thenCall((election: Election) => Promise.resolve(election));
+            const result = await controller.patchElection('election-uuid', { ... openedElectionBody, closing: openedElection.closing.plus({ days: 1 }).toISO() }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+        });
+
+        it('should return "bad request" http code when trying to reopen a closed election', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(closedElection);
+            const result = await controller.patchElection('election-uuid', { ... closedElectionBody, closing: DateTime.local().plus({ days: 1 }).toISO() }, 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+    });
+
+    describe('deleteElection', () => {
+
+        it('should return "forbidden" http code when user does not have required permission', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [] });
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({
+                electionUUID: 'election-uuid',
+                bdeUUID: 'bde-uuid',
+                title: 'BDE election',
+                lists: ['allintech'],
+                opening: DateTime.local(),
+                closing: DateTime.local().plus({ days: 1 }),
+                blankVoteAllowed: false,
+                resultsPublished: false,
+            });
+            const result = await controller.deleteElection('election-uuid', 'the-token');
+
+            verify(electionsServiceMock.delete(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+    });
+
+    describe('getResults', () => {
+
+        const closedElection: Election = {
+            electionUUID: 'election-uuid',
+            bdeUUID: 'bde-uuid',
+            title: 'BDE election',
+            lists: ['allintech', 'toutankhatech'],
+            opening: DateTime.local().minus({ days: 2 }),
+            closing: DateTime.local().minus({ days: 1 }),
+            blankVoteAllowed: true,
+            resultsPublished: false,
+        };
+
+        it('should return "unauthorized" http code if results are not published and no token is given', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(closedElection);
+            const result = await controller.getResults('election-uuid');
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "forbidden" http code if results are not published and user is from an other BDE', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(closedElection);
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, bdeUUID: 'other-bde-uuid', permissions: [] });
+            const result = await controller.getResults('election-uuid', 'the-token');
+
+            verify(votesServiceMock.findBallots(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "ok" http code with results to users of the BDE once the election is closed', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(closedElection);
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [] });
+            when(votesServiceMock.findBallots('election-uuid')).thenResolve([]);
+            when(votesServiceMock.findParticipations('election-uuid')).thenResolve([]);
+            when(usersServiceMock.findAll('bde-uuid')).thenResolve([]);
+            const result = await controller.getResults('election-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+        });
+
+        it('should return "forbidden" http code if the election is not closed yet', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({ ... closedElection, closing: DateTime.local().plus({ days: 1 }) });
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [] });
+            const result = await controller.getResults('election-uuid', 'the-token');
+
+            verify(votesServiceMock.findBallots(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "ok" http code with results to anyone if results are published', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({ ... closedElection, resultsPublished: true });
+            when(votesServiceMock.findBallots('election-uuid')).thenResolve([
+                { electionUUID: 'election-uuid', receiptHash: 'receipt-hash', liste: 'allintech' },
+            ]);
+            when(votesServiceMock.findParticipations('election-uuid')).thenResolve([
+                { electionUUID: 'election-uuid', userUUID: 'user-1' },
+            ]);
+            when(usersServiceMock.findAll('bde-uuid')).thenResolve([]);
+            const result = await controller.getResults('election-uuid');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.have.nested.property('lists.allintech', 1);
+        });
+
+    });
+
+    describe('publishResults', () => {
+
+        it('should return "bad request" http code if the election is not closed yet', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({
+                electionUUID: 'election-uuid',
+                bdeUUID: 'bde-uuid',
+                title: 'BDE election',
+                lists: ['allintech'],
+                opening: DateTime.local(),
+                closing: DateTime.local().plus({ days: 1 }),
+                blankVoteAllowed: false,
+                resultsPublished: false,
+            });
+            const result = await controller.publishResults('election-uuid', 'the-token');
+
+            verify(electionsServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+    });
+
+});
@@ -0,0 +1,395 @@
+import { ElectionsService, ElectionsErrorType, AuthenticationService, LoggingService, VotesService, UsersService } from '../services';
+import { ValidatorBuilder } from '../validation';
+import { Election, ElectionResults } from '../models';
+import { DateTime } from 'luxon';
+import { v4 as uuid } from 'uuid';
+import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
+import { canManageElections } from '../utils/permissions';
+import { tallyVotes } from '../utils/election-results';
+
+interface ElectionBodyRequest { title: string, bde: string, lists: string[], opening: string, closing: string, blankVoteAllowed: boolean };
+
+export class ElectionsController {
+
+    private static ELECTION_VALIDATOR = ValidatorBuilder
+                                        .new<ElectionBodyRequest>()
+                                        .requires('title').toBeString().withMinLength(1).withMaxLength(200)
+                                        .requires('bde').toBeString().withMinLength(1)
+                                        .requires('lists').toBeArray().withMinLength(1).withEachElement().toBeString().withMinLength(1).withMaxLength(50)
+                                        .requires('opening').toBeDateTime()
+                                        .requires('closing').toBeDateTime()
+                                        .requires('blankVoteAllowed').toBeBoolean()
+                                        .build();
+
+    constructor(
+        private electionsService: ElectionsService,
+        private votesService: VotesService,
+        private usersService: UsersService,
+        private authService: AuthenticationService,
+        private loggingService: LoggingService
+    ) {}
+
+    /**
+     * Creates an election instance from the given request data.
+     * 
+     * @param electionUUID The UUID of the election
+     * @param electionData The request data
+     */
+    private toElection(electionUUID: string, electionData: ElectionBodyRequest): Election {
+        return {
+            electionUUID,
+            bdeUUID: electionData.bde,
+            title: electionData.title,
+            lists: electionData.lists.map((list) => list.trim()),
+            opening: DateTime.fromISO(electionData.opening),
+            closing: DateTime.fromISO(electionData.closing),
+            blankVoteAllowed: electionData.blankVoteAllowed,
+            resultsPublished: false,
+        };
+    }
+
+    /**
+     * Checks the given election is consistent : voting window is well ordered and lists names are unique.
+     * 
+     * @param election The election to check
+     * @returns an error message if the election is inconsistent, null otherwise
+     */
+    private checkConsistency(election: Election): string | null {
+        if (election.opening >= election.closing) {
+            return 'Closing date must come (strictly) after opening date.';
+        }
+
+        if (new Set(election.lists).size !== election.lists.length) {
+            return 'Lists names must be unique.';
+        }
+
+        return null;
+    }
+
+    /**
+     * Checks the changes made to an election once it's opened : ballots may have been cast, so lists, opening date
+     * and whether or not blank vote is allowed must remain the same. The closing date can only be postponed while
+     * the election is still open.
+     * 
+     * @param election The patched election
+     * @param fetchedElection The election as it is currently stored
+     * @returns an error message if a change is not allowed, null otherwise
+     */
+    private checkOpenedElectionChanges(election: Election, fetchedElection: Election): string | null {
+        const now = DateTime.local();
+        if (fetchedElection.opening > now) {
+            return null;
+        }
+
+        const listsChanged = election.lists.length !== fetchedElection.lists.length || election.lists.some((list) => !fetchedElection.lists.includes(list));
+        if (listsChanged) {
+            return 'Lists of an opened election can\'t be changed.';
+        }
+
+        if (election.opening.toMillis() !== fetchedElection.opening.toMillis() || election.blankVoteAllowed !== fetchedElection.blankVoteAllowed) {
+            return 'Opening date and blank vote of an opened election can\'t be changed.';
+        }
+
+        if (election.closing.toMillis() !== fetchedElection.closing.toMillis() && (fetchedElection.closing <= now || election.closing < fetchedElection.closing)) {
+            return 'Closing date of an opened election can only be postponed while the election is open.';
+        }
+
+        return null;
+    }
+
+    /**
+     * Handles a request that aims to create an election.
+     * 
+     * @param body The request body
+     * @param token The JWT to identify user
+     */
+    async create(body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        /* Validate request body */
+        const result = ElectionsController.ELECTION_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let election = this.toElection(uuid(), result.value);
+
+        const inconsistency = this.checkConsistency(election);
+        if (inconsistency) {
+            return httpCode.badRequest(inconsistency);
+        }
+
+        /* Checking user permission */
+        if (!canManageElections(claims, election.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to create this election.');
+        }
+
+        try {
+            election = await this.electionsService.create(election);
+            return httpCode.created(election);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.BDE_NOT_EXISTS) {
+                return httpCode.badRequest('Given bde UUID does not exist.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to create an election. Contact an administrator or retry later.');
+        }
+
+    }
+
+    /**
+     * Handles a request that aims to retrieve an election.
+     * 
+     * @param electionUUID The UUID of the election to get
+     */
+    async findOne(electionUUID: string): Promise<httpCode.Response> {
+        try {
+            const election = await this.electionsService.findByUUID(electionUUID);
+            return httpCode.ok(election);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound('Not found');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to fetch this election. Contact an adminstrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to list all elections organized by a BDE.
+     * 
+     * @param bdeUUID The UUID of the BDE to list elections of
+     */
+    async findByBDE(bdeUUID: string): Promise<httpCode.Response> {
+        try {
+            const elections = await this.electionsService.findByBDE(bdeUUID);
+            return httpCode.ok(elections);
+        } catch (e) {
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to list elections.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to patch an election.
+     * Once an election is opened, its lists, its opening date and whether or not blank vote is allowed can't be changed
+     * anymore, and its closing date can only be postponed until it closes.
+     * 
+     * @param electionUUID The UUID of the election to patch
+     * @param body The request body
+     * @param token The JWT to identify user
+     */
+    async patchElection(electionUUID: string, body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        /* Validate request body */
+        const result = ElectionsController.ELECTION_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let election = this.toElection(electionUUID, result.value);
+
+        const inconsistency = this.checkConsistency(election);
+        if (inconsistency) {
+            return httpCode.badRequest(inconsistency);
+        }
+
+        /* Fetch election with the given UUID */
+        let fetchedElection: Election;
+        try {
+            fetchedElection = await this.electionsService.findByUUID(electionUUID);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to patch the election. Please contact and adminstrator or retry later.');
+        }
+
+        /* Checking user permission (an election can't be moved to an other BDE) */
+        if (!canManageElections(claims, fetchedElection.bdeUUID) || election.bdeUUID !== fetchedElection.bdeUUID) {
+            return httpCode.forbidden('You do not have the permission to patch this election.');
+        }
+
+        election.resultsPublished = fetchedElection.resultsPublished;
+
+        const forbiddenChange = this.checkOpenedElectionChanges(election, fetchedElection);
+        if (forbiddenChange) {
+            return httpCode.badRequest(forbiddenChange);
+        }
+
+        try {
+            election = await this.electionsService.update(election);
+            return httpCode.ok(election);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to patch election. Contact an administrator or retry later.');
+        }
+
+    }
+
+    /**
+     * Deletes the election with the given UUID.
+     * 
+     * @param electionUUID The UUID of the election to delete
+     * @param token The JWT allowing to identify the user
+     */
+    async deleteElection(electionUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        /* Fetch election with the given UUID */
+        let fetchedElection: Election;
+        try {
+            fetchedElection = await this.electionsService.findByUUID(electionUUID);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete the election. Please contact and adminstrator or retry later.');
+        }
+
+        /* Checking user permission */
+        if (!canManageElections(claims, fetchedElection.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to delete this election.');
+        }
+
+        try {
+            await this.electionsService.delete(electionUUID);
+            return httpCode.noContent();
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete election. Contact an administrator or retry later.');
+        }
+
+    }
+
+    /**
+     * Handles a request that aims to fetch results of an election.
+     * Once the election is closed, results are available to users of the organizing BDE.
+     * Once published (which can only happen after closing too), results are available to everyone.
+     * 
+     * @param electionUUID The UUID of the election to get results of
+     * @param token The JWT to identify user
+     */
+    async getResults(electionUUID: string, token?: string): Promise<httpCode.Response> {
+
+        /* Fetch election with the given UUID */
+        let election: Election;
+        try {
+            election = await this.electionsService.findByUUID(electionUUID);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to fetch results. Contact an administrator or retry later.');
+        }
+
+        /* Unpublished results are only visible to users of the organizing BDE, once the election is closed */
+        if (!election.resultsPublished) {
+
+            const authentication = await authenticate(this.authService, token);
+            if (!authentication.authenticated) {
+                return authentication.response;
+            }
+            const claims = authentication.claims;
+
+            if (election.closing > DateTime.local()) {
+                return httpCode.forbidden('Results are not available until the election is closed.');
+            }
+
+            if (claims.bdeUUID !== election.bdeUUID && !canManageElections(claims, election.bdeUUID)) {
+                return httpCode.forbidden('Results of this election have not been published yet.');
+            }
+
+        }
+
+        let results: ElectionResults;
+        try {
+            const [ballots, participations, users] = await Promise.all([
+                this.votesService.findBallots(electionUUID),
+                this.votesService.findParticipations(electionUUID),
+                this.usersService.findAll(election.bdeUUID),
+            ]);
+            results = tallyVotes(election, ballots, participations, users);
+        } catch (e) {
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to fetch results. Contact an administrator or retry later.');
+        }
+
+        return httpCode.ok(results);
+    }
+
+    /**
+     * Handles a request that aims to publish results of an election to all users.
+     * Results can only be published once the election is closed.
+     * 
+     * @param electionUUID The UUID of the election to publish results of
+     * @param token The JWT to identify user
+     */
+    async publishResults(electionUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        /* Fetch election with the given UUID */
+        let election: Election;
+        try {
+            election = await this.electionsService.findByUUID(electionUUID);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to publish results. Contact an administrator or retry later.');
+        }
+
+        /* Checking user permission */
+        if (!canManageElections(claims, election.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to publish results of this election.');
+        }
+
+        if (election.closing > DateTime.local()) {
+            return httpCode.badRequest('Results can\'t be published before the election is closed.');
+        }
+
+        try {
+            election = await this.electionsService.update({ ... election, resultsPublished: true });
+            return httpCode.ok(election);
+        } catch (e) {
+            if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+                return httpCode.notFound(`No election with uuid ${electionUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to publish results. Contact an administrator or retry later.');
+        }
+    }
+
+}
@@ -101,6 +101,24 @@ describe('Events controller', () => {
             expect(result.body).to.have.property('message');
         });
 
+        it('should return "bad request" http code if capacity is lower than 1', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, capacity: 0 }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body).to.have.property('message');
+            expect(result.body['message']).to.have.string('capacity');
+        });
+
+        it('should pass the given capacity to events service', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(eventsServiceMock.create(anything())).thenCall((event: Event) => Promise.resolve(event));
+            const result = await controller.create({ ... validRequestBody, capacity: 50 }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Created);
+            expect(result.body).to.have.property('capacity', 50);
+        });
+
         it('should return "created" http code if events service resolves', async () => {
             const event: Event = {
                 bdeUUID: 'bde-uuid',
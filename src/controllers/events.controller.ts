@@ -4,9 +4,10 @@ import { Event } from '../models';
 import { DateTime } from 'luxon';
 import { v4 as uuid } from 'uuid';
 import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
 import { canManageEvents } from '../utils/permissions';
 
-interface EventBodyRequest { name: string, bde: string, isDraft: boolean, bookingStart?: string, bookingEnd?: string, eventDate?: string };
+interface EventBodyRequest { name: string, bde: string, isDraft: boolean, bookingStart?: string, bookingEnd?: string, eventDate?: string, cancellationDeadline?: string, capacity?: number };
 
 export class EventsController {
 
@@ -18,6 +19,8 @@ export class EventsController {
                                         .optional('bookingStart').toBeDateTime()
                                         .optional('bookingEnd').toBeDateTime()
                                         .optional('eventDate').toBeDateTime()
+                                        .optional('cancellationDeadline').toBeDateTime()
+                                        .optional('capacity').toBeInteger().withMinValue(1)
                                         .build();
 
     constructor(private eventsService: EventsService, private authService: AuthenticationService, private loggingService: LoggingService) {}
@@ -40,6 +43,10 @@ export class EventsController {
         if (eventData.eventDate) {
             event.eventDate = DateTime.fromISO(eventData.eventDate);
         }
+
+        if (eventData.cancellationDeadline) {
+            event.cancellationDeadline = DateTime.fromISO(eventData.cancellationDeadline);
+        }
     }
 
     /**
@@ -59,18 +66,11 @@ export class EventsController {
      */
     async create(body: object | null, token?: string): Promise<httpCode.Response> {
 
-        /* No user token were given, we return an unauthorized error */
-        if (!token) {
-            return httpCode.unauthorized('You must be connected.');
-        }
-
-        /* Try to authenticate the user from the given token */
-        let claims: JWTClaims;
-        try {
-            claims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const claims = authentication.claims;
 
         /* Validate request body */
         const result = EventsController.EVENT_VALIDATOR.validate(body);
@@ -83,6 +83,7 @@ export class EventsController {
             bdeUUID: result.value.bde,
             eventName: result.value.name,
             isDraft: result.value.isDraft,
+            capacity: result.value.capacity,
         };
 
         /* Assign dates instances */
@@ -134,18 +135,11 @@ export class EventsController {
         /* If the event is a draft, the user must have the permission to manage events in order to fetch it */
         if (event.isDraft) {
 
-            /* If no token was provided, we discard the request */
-            if (!token) {
-                return httpCode.unauthorized('You must authenticate to access this resource.');
-            }
-            
-            /* We decode the received token */
-            let user: JWTClaims;
-            try {
-                user = await this.authService.verifyToken(token);
-            } catch (_) {
-                return httpCode.unauthorized('The given token is invalid.');
+            const authentication = await authenticate(this.authService, token);
+            if (!authentication.authenticated) {
+                return authentication.response;
             }
+            const user = authentication.claims;
 
             /* If the user does not have the permission to manage this event, we discard the request */
             if (!canManageEvents(user, event.bdeUUID)) {
@@ -166,18 +160,11 @@ export class EventsController {
      */
     async patchEvent(eventUUID: string, body: object | null, token?: string): Promise<httpCode.Response> {
         
-        /* No user token were given, we return an unauthorized error */
-        if (!token) {
-            return httpCode.unauthorized('You must be connected.');
-        }
-
-        /* Try to authenticate the user from the given token */
-        let claims: JWTClaims;
-        try {
-            claims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const claims = authentication.claims;
 
         /* Validate request body */
         const result = EventsController.EVENT_VALIDATOR.validate(body);
@@ -190,6 +177,7 @@ export class EventsController {
             bdeUUID: result.value.bde,
             eventName: result.value.name,
             isDraft: result.value.isDraft,
+            capacity: result.value.capacity,
         };
 
         /* Assign dates instances */
@@ -245,18 +233,11 @@ export class EventsController {
      */
     async deleteEvent(eventUUID: string, token?: string): Promise<httpCode.Response> {
         
-        /* No user token were given, we return an unauthorized error */
-        if (!token) {
-            return httpCode.unauthorized('You must be connected.');
-        }
-
-        /* Try to authenticate the user from the given token */
-        let claims: JWTClaims;
-        try {
-            claims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const claims = authentication.claims;
 
         /* Fetch event with the given UUID */
         let fetchedEvent: Event;
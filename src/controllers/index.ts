@@ -2,4 +2,9 @@ export * from './bde.controller';
 export * from './users.controller';
 export * from './events.controller';
 export * from './booking.controller';
-export * from './votes.controller';
\ No newline at end of file
+export * from './votes.controller';
+export * from './elections.controller';
+export * from './roles.controller';
+export * from './api-keys.controller';
+export * from './sso.controller';
+export * from './auth-guard';
\ No newline at end of file
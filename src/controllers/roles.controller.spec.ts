@@ -0,0 +1,197 @@
+import chai from 'chai';
+import { mock, instance, when, anything, reset, verify, capture } from 'ts-mockito';
+import { RolesService, AuthenticationService, RolesServiceError, JWTClaims, RolesErrorType, LoggingService, UsersService } from '../services';
+import { RolesController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { Permissions, Role, User } from '../models';
+
+const { expect } = chai;
+
+describe('Roles controller', () => {
+
+    const rolesServiceMock = mock<RolesService>();
+    const usersServiceMock = mock<UsersService>();
+    const authServiceMock = mock<AuthenticationService>();
+    const loggingServiceMock = mock<LoggingService>();
+    const controller = new RolesController(
+        instance(rolesServiceMock),
+        instance(usersServiceMock),
+        instance(authServiceMock),
+        instance(loggingServiceMock)
+    );
+
+    beforeEach(() => {
+        reset(rolesServiceMock);
+        reset(usersServiceMock);
+        reset(authServiceMock);
+    });
+
+    const jwtClaims: JWTClaims = {
+        bdeUUID: 'bde-uuid',
+        firstname: 'Firstname',
+        lastname: 'Lastname',
+        permissions: [Permissions.MANAGE_PERMISSIONS],
+        uuid: 'the-uuid',
+    };
+
+    const validRequestBody = {
+        name: 'Treasurer',
+        bde: 'bde-uuid',
+        permissions: ['manage_events'],
+    };
+
+    const role: Role = {
+        roleUUID: 'role-uuid',
+        bdeUUID: 'bde-uuid',
+        name: 'Treasurer',
+        permissions: [Permissions.MANAGE_EVENTS],
+    };
+
+    const user: User = {
+        userUUID: 'user-uuid',
+        bdeUUID: 'bde-uuid',
+        email: 'john.doe@example.com',
+        firstname: 'John',
+        lastname: 'Doe',
+        member: true,
+        password: 'password',
+        permissions: [],
+        specialtyName: 'IG',
+        specialtyYear: 3,
+    };
+
+    describe('create', () => {
+
+        it('should return "unauthorized" http code if no token is given', async () => {
+            const result = await controller.create(validRequestBody);
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "forbidden" http code when user does not have required permission', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [Permissions.MANAGE_EVENTS] });
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code when user tries to create a role for an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, bde: 'other-bde-uuid' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code if a non-modifiable permission is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, permissions: ['all'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code if an unknown permission is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            const result = await controller.create({ ... validRequestBody, permissions: ['unknown'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code if a role with the same name already exists', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.create(anything())).thenReject(new RolesServiceError('', RolesErrorType.ROLE_ALREADY_EXISTS));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "created" http code with permissions names when role is created', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.create(anything())).thenCall((r: Role) => Promise.resolve(r));
+            const result = await controller.create(validRequestBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Created);
+            expect(result.body['permissions']).to.deep.eq(['manage_events']);
+            expect(result.body['roleUUID']).to.be.a('string');
+        });
+
+    });
+
+    describe('deleteRole', () => {
+
+        it('should return "not found" http code if role does not exist', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenReject(new RolesServiceError('', RolesErrorType.ROLE_NOT_EXISTS));
+            const result = await controller.deleteRole('role-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return "forbidden" http code if role belongs to an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve({ ... role, bdeUUID: 'other-bde-uuid' });
+            const result = await controller.deleteRole('role-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+            verify(rolesServiceMock.delete(anything())).never();
+        });
+
+        it('should return "no content" http code when role is deleted', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve(role);
+            const result = await controller.deleteRole('role-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotContent);
+            verify(rolesServiceMock.delete('role-uuid')).once();
+        });
+
+    });
+
+    describe('assignRole', () => {
+
+        it('should return "bad request" http code if user belongs to an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, permissions: [Permissions.ALL] });
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve(role);
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, bdeUUID: 'other-bde-uuid' });
+            const result = await controller.assignRole('role-uuid', 'user-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "forbidden" http code if user can not manage permissions of the targeted user', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve(role);
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, permissions: [Permissions.MANAGE_PERMISSIONS] });
+            const result = await controller.assignRole('role-uuid', 'user-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should add the role to the user roles only once', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve(role);
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, roles: ['other-role-uuid', 'role-uuid'] });
+            const result = await controller.assignRole('role-uuid', 'user-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [, roles] = capture(usersServiceMock.updateRoles).last();
+            expect(roles).to.deep.eq(['other-role-uuid', 'role-uuid']);
+            verify(authServiceMock.renewSecurityStamp('user-uuid')).once();
+        });
+
+    });
+
+    describe('unassignRole', () => {
+
+        it('should remove the role from the user roles', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+            when(rolesServiceMock.findByUUID('role-uuid')).thenResolve(role);
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, roles: ['role-uuid', 'other-role-uuid'] });
+            const result = await controller.unassignRole('role-uuid', 'user-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [, roles] = capture(usersServiceMock.updateRoles).last();
+            expect(roles).to.deep.eq(['other-role-uuid']);
+        });
+
+    });
+
+});
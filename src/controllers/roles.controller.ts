@@ -0,0 +1,320 @@
+import { RolesService, RolesErrorType, UsersService, UsersErrorType, AuthenticationService, LoggingService } from '../services';
+import { ValidatorBuilder } from '../validation';
+import { Role, Permission, User, UnregisteredUser } from '../models';
+import { v4 as uuid } from 'uuid';
+import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
+import { canManageRoles, canManagePermissions, permissionsFromStrings } from '../utils/permissions';
+
+interface RoleBodyRequest { name: string, bde: string, permissions: string[] };
+
+export class RolesController {
+
+    private static ROLE_VALIDATOR = ValidatorBuilder
+                                        .new<RoleBodyRequest>()
+                                        .requires('name').toBeString().withMinLength(1).withMaxLength(30)
+                                        .requires('bde').toBeString().withMinLength(1)
+                                        .requires('permissions').toBeArray().withEachElement().toBeString().withMinLength(1)
+                                        .build();
+
+    constructor(
+        private rolesService: RolesService,
+        private usersService: UsersService,
+        private authService: AuthenticationService,
+        private loggingService: LoggingService
+    ) {}
+
+    /**
+     * Converts the given permissions names to permissions. Only modifiable permissions can be given by a role.
+     * 
+     * @param names The permissions names
+     * @returns the permissions, or null if a name is unknown or matches a non-modifiable permission
+     */
+    private toRolePermissions(names: string[]): Permission[] | null {
+        const uniqueNames = Array.from(new Set(names));
+        const permissions = permissionsFromStrings(uniqueNames);
+        if (permissions.length !== uniqueNames.length || permissions.some((p) => !p.modifiable)) {
+            return null;
+        }
+        return permissions;
+    }
+
+    /**
+     * Serializes the given role, only keeping permissions names.
+     * 
+     * @param role The role to serialize
+     */
+    private serialize(role: Role) {
+        return { ... role, permissions: role.permissions.map((p) => p.name) };
+    }
+
+    /**
+     * Handles a request that aims to create a role.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to identify user
+     */
+    async create(body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        /* Validate request body */
+        const result = RolesController.ROLE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const permissions = this.toRolePermissions(result.value.permissions);
+        if (!permissions) {
+            return httpCode.badRequest('Unknown or non-modifiable permission given.');
+        }
+
+        /* Checking user permission */
+        if (!canManageRoles(claims, result.value.bde)) {
+            return httpCode.forbidden('You do not have the permission to create this role.');
+        }
+
+        let role: Role = {
+            roleUUID: uuid(),
+            bdeUUID: result.value.bde,
+            name: result.value.name.trim(),
+            permissions,
+        };
+
+        try {
+            role = await this.rolesService.create(role);
+            return httpCode.created(this.serialize(role));
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_ALREADY_EXISTS) {
+                return httpCode.badRequest('A role with this name already exists.');
+            } else if (e.type === RolesErrorType.BDE_NOT_EXISTS) {
+                return httpCode.badRequest('Given bde UUID does not exist.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to create a role. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to list all roles of a BDE.
+     * This method always resolves.
+     * 
+     * @param bdeUUID The UUID of the BDE to list roles of
+     * @param token The JWT to identify user
+     */
+    async findByBDE(bdeUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        if (!canManageRoles(claims, bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to list roles of this BDE.');
+        }
+
+        try {
+            const roles = await this.rolesService.findByBDE(bdeUUID);
+            return httpCode.ok(roles.map((role) => this.serialize(role)));
+        } catch (e) {
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to list roles. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to patch a role.
+     * This method always resolves.
+     * 
+     * @param roleUUID The UUID of the role to patch
+     * @param body The request body
+     * @param token The JWT to identify user
+     */
+    async patchRole(roleUUID: string, body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        const result = RolesController.ROLE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const permissions = this.toRolePermissions(result.value.permissions);
+        if (!permissions) {
+            return httpCode.badRequest('Unknown or non-modifiable permission given.');
+        }
+
+        /* Fetch role with the given UUID */
+        let fetchedRole: Role;
+        try {
+            fetchedRole = await this.rolesService.findByUUID(roleUUID);
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_NOT_EXISTS) {
+                return httpCode.notFound(`No role with uuid ${roleUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to patch the role. Contact an administrator or retry later.');
+        }
+
+        /* Checking user permission (a role can't be moved to an other BDE) */
+        if (!canManageRoles(claims, fetchedRole.bdeUUID) || result.value.bde !== fetchedRole.bdeUUID) {
+            return httpCode.forbidden('You do not have the permission to patch this role.');
+        }
+
+        try {
+            const role = await this.rolesService.update({ ... fetchedRole, name: result.value.name.trim(), permissions });
+            return httpCode.ok(this.serialize(role));
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_NOT_EXISTS) {
+                return httpCode.notFound(`No role with uuid ${roleUUID} exists.`);
+            } else if (e.type === RolesErrorType.ROLE_ALREADY_EXISTS) {
+                return httpCode.badRequest('A role with this name already exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to patch the role. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to delete a role.
+     * This method always resolves.
+     * 
+     * @param roleUUID The UUID of the role to delete
+     * @param token The JWT to identify user
+     */
+    async deleteRole(roleUUID: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        let fetchedRole: Role;
+        try {
+            fetchedRole = await this.rolesService.findByUUID(roleUUID);
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_NOT_EXISTS) {
+                return httpCode.notFound(`No role with uuid ${roleUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete the role. Contact an administrator or retry later.');
+        }
+
+        if (!canManageRoles(claims, fetchedRole.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to delete this role.');
+        }
+
+        try {
+            await this.rolesService.delete(roleUUID);
+            return httpCode.noContent();
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_NOT_EXISTS) {
+                return httpCode.notFound(`No role with uuid ${roleUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete the role. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to give a role to an user.
+     * This method always resolves.
+     * 
+     * @param roleUUID The UUID of the role to give
+     * @param userUUID The UUID of the user to give the role to
+     * @param token The JWT to identify user
+     */
+    assignRole(roleUUID: string, userUUID: string, token?: string): Promise<httpCode.Response> {
+        return this.updateUserRoles(roleUUID, userUUID, true, token);
+    }
+
+    /**
+     * Handles a request that aims to remove a role from an user.
+     * This method always resolves.
+     * 
+     * @param roleUUID The UUID of the role to remove
+     * @param userUUID The UUID of the user to remove the role from
+     * @param token The JWT to identify user
+     */
+    unassignRole(roleUUID: string, userUUID: string, token?: string): Promise<httpCode.Response> {
+        return this.updateUserRoles(roleUUID, userUUID, false, token);
+    }
+
+    /**
+     * Adds or removes the role with the given UUID to/from the user with the given UUID.
+     * As roles give permissions, the requesting user must be able to manage roles of the role BDE
+     * and to manage permissions of the targeted user.
+     * 
+     * @param roleUUID The role UUID
+     * @param userUUID The user UUID
+     * @param assign Whether the role must be added (true) or removed (false)
+     * @param token The JWT to identify user
+     */
+    private async updateUserRoles(roleUUID: string, userUUID: string, assign: boolean, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const claims = authentication.claims;
+
+        let role: Role;
+        try {
+            role = await this.rolesService.findByUUID(roleUUID);
+        } catch (e) {
+            if (e.type === RolesErrorType.ROLE_NOT_EXISTS) {
+                return httpCode.notFound(`No role with uuid ${roleUUID} exists.`);
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update user roles. Contact an administrator or retry later.');
+        }
+
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(userUUID);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update user roles. Contact an administrator or retry later.');
+        }
+
+        if (!canManageRoles(claims, role.bdeUUID) || !canManagePermissions(claims, user)) {
+            return httpCode.forbidden('You do not have the permission to update roles of this user.');
+        }
+
+        if (user.bdeUUID !== role.bdeUUID) {
+            return httpCode.badRequest('This role is not defined by the BDE of the user.');
+        }
+
+        const roles = (user.roles || []).filter((uuid) => uuid !== role.roleUUID);
+        if (assign) {
+            roles.push(role.roleUUID);
+        }
+
+        try {
+            await this.usersService.updateRoles(user.userUUID, roles);
+            await this.authService.renewSecurityStamp(user.userUUID);
+            return httpCode.ok({ roles });
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update user roles. Contact an administrator or retry later.');
+        }
+    }
+
+}
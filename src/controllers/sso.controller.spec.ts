@@ -0,0 +1,177 @@
+import chai from 'chai';
+import { mock, instance, when, anything, anyString, reset, verify, capture } from 'ts-mockito';
+import { IdentityProvider, ExternalIdentitiesService, ExternalIdentitiesServiceError, ExternalIdentitiesErrorType, UsersService, UsersServiceError, UsersErrorType, AuthenticationService, BDEService, LoggingService } from '../services';
+import { SsoController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { hashOneTimeToken } from '../utils/one-time-token';
+import { User, Permissions } from '../models';
+import { DateTime } from 'luxon';
+
+const { expect } = chai;
+
+describe('SSO controller', () => {
+
+    const providerMock = mock<IdentityProvider>();
+    const externalIdentitiesServiceMock = mock<ExternalIdentitiesService>();
+    const usersServiceMock = mock<UsersService>();
+    const authServiceMock = mock<AuthenticationService>();
+    const bdeServiceMock = mock<BDEService>();
+    const loggingServiceMock = mock<LoggingService>();
+
+    let controller: SsoController;
+
+    const user: User = {
+        userUUID: 'user-uuid',
+        bdeUUID: 'bde-uuid',
+        email: 'john.doe@example.com',
+        firstname: 'John',
+        lastname: 'Doe',
+        member: true,
+        password: 'password',
+        permissions: [],
+        specialtyName: 'IG',
+        specialtyYear: 3,
+    };
+
+    const identity = {
+        provider: 'university',
+        subject: 'the-subject',
+        email: 'john.doe@example.com',
+        emailVerified: true,
+    };
+
+    beforeEach(() => {
+        reset(providerMock);
+        reset(externalIdentitiesServiceMock);
+        reset(usersServiceMock);
+        reset(authServiceMock);
+        reset(bdeServiceMock);
+        when(providerMock.id).thenReturn('university');
+        when(authServiceMock.resolvePermissions(anything())).thenCall((u: User) => Promise.resolve(u.permissions));
+        when(authServiceMock.generateToken(anything())).thenResolve('the-token');
+        when(authServiceMock.generateRefreshToken(anything())).thenResolve('the-refresh-token');
+        controller = new SsoController(
+            [instance(providerMock)],
+            instance(externalIdentitiesServiceMock),
+            instance(usersServiceMock),
+            instance(authServiceMock),
+            instance(bdeServiceMock),
+            instance(loggingServiceMock)
+        );
+    });
+
+    describe('authorize', () => {
+
+        it('should return not found if the provider does not exist', async () => {
+            const result = await controller.authorize('unknown');
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return the authorization URL and a state bound to the nonce', async () => {
+            when(providerMock.authorizationUrl(anyString(), anyString())).thenResolve('https://idp.example.com/authorize');
+            const result = await controller.authorize('university');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body['url']).to.eq('https://idp.example.com/authorize');
+            const [state, nonce] = capture(providerMock.authorizationUrl).last();
+            expect(result.body['state']).to.eq(state);
+            expect(nonce).to.eq(hashOneTimeToken(state));
+        });
+
+    });
+
+    describe('callback', () => {
+
+        it('should return bad request if the code is missing', async () => {
+            const result = await controller.callback('university', { state: 'the-state' });
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return unauthorized if the code can not be exchanged', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenReject(new Error('invalid_grant'));
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should log in the user already linked to the identity', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenResolve({ ... identity, userUUID: 'user-uuid', linkedAt: DateTime.local() });
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve(user);
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ token: 'the-token', refreshToken: 'the-refresh-token' });
+            verify(externalIdentitiesServiceMock.create(anything())).never();
+        });
+
+        it('should link the identity to the user with the same verified email', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenReject(new ExternalIdentitiesServiceError('', ExternalIdentitiesErrorType.IDENTITY_NOT_EXISTS));
+            when(usersServiceMock.findByEmail('john.doe@example.com')).thenResolve(user);
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [link] = capture(externalIdentitiesServiceMock.create).last();
+            expect(link).to.include({ provider: 'university', subject: 'the-subject', userUUID: 'user-uuid' });
+        });
+
+        it('should log in the user linked by a concurrent login if the identity has been linked meanwhile', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject'))
+                .thenReject(new ExternalIdentitiesServiceError('', ExternalIdentitiesErrorType.IDENTITY_NOT_EXISTS))
+                .thenResolve({ ... identity, userUUID: 'user-uuid', linkedAt: DateTime.local() });
+            when(usersServiceMock.findByEmail('john.doe@example.com')).thenResolve(user);
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve(user);
+            when(externalIdentitiesServiceMock.create(anything())).thenReject(new ExternalIdentitiesServiceError('', ExternalIdentitiesErrorType.IDENTITY_ALREADY_EXISTS));
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ token: 'the-token', refreshToken: 'the-refresh-token' });
+        });
+
+        it('should not link the identity if its email is not verified', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve({ ... identity, emailVerified: false });
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenReject(new ExternalIdentitiesServiceError('', ExternalIdentitiesErrorType.IDENTITY_NOT_EXISTS));
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+            verify(usersServiceMock.findByEmail(anything())).never();
+            verify(externalIdentitiesServiceMock.create(anything())).never();
+        });
+
+        it('should return forbidden if no user has the email of the identity', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenReject(new ExternalIdentitiesServiceError('', ExternalIdentitiesErrorType.IDENTITY_NOT_EXISTS));
+            when(usersServiceMock.findByEmail('john.doe@example.com')).thenReject(new UsersServiceError('', UsersErrorType.USER_NOT_EXISTS));
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should request the second factor if the user enabled two-factor authentication', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenResolve({ ... identity, userUUID: 'user-uuid', linkedAt: DateTime.local() });
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, twoFactor: { secret: 'secret', enabled: true, recoveryCodes: [] } });
+            when(authServiceMock.generateChallengeToken(anything())).thenResolve('the-challenge-token');
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ challengeToken: 'the-challenge-token', twoFactor: 'verify' });
+            verify(authServiceMock.generateToken(anything())).never();
+        });
+
+        it('should request enrollment if two-factor authentication is enforced for the user', async () => {
+            when(providerMock.exchangeCode('the-code', hashOneTimeToken('the-state'))).thenResolve(identity);
+            when(externalIdentitiesServiceMock.findBySubject('university', 'the-subject')).thenResolve({ ... identity, userUUID: 'user-uuid', linkedAt: DateTime.local() });
+            when(usersServiceMock.findByUUID('user-uuid')).thenResolve({ ... user, permissions: [Permissions.MANAGE_BDE] });
+            when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [], enforceTwoFactor: true });
+            when(authServiceMock.generateChallengeToken(anything())).thenResolve('the-challenge-token');
+            const result = await controller.callback('university', { code: 'the-code', state: 'the-state' });
+
+            expect(result.body).to.deep.eq({ challengeToken: 'the-challenge-token', twoFactor: 'enroll' });
+        });
+
+    });
+
+});
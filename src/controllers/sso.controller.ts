@@ -0,0 +1,174 @@
+import { IdentityProvider, AuthenticatedIdentity, ExternalIdentitiesService, ExternalIdentitiesErrorType, UsersService, UsersErrorType, AuthenticationService, BDEService, LoggingService } from '../services';
+import { User } from '../models';
+import { ValidatorBuilder } from '../validation';
+import { DateTime } from 'luxon';
+import * as httpCode from '../utils/http-code';
+import { generateOneTimeToken, hashOneTimeToken } from '../utils/one-time-token';
+import { twoFactorStep } from './two-factor';
+
+interface CallbackBodyRequest { code: string, state: string };
+
+export class SsoController {
+
+    private static CALLBACK_VALIDATOR = ValidatorBuilder
+                                            .new<CallbackBodyRequest>()
+                                            .requires('code').toBeString().withMinLength(1)
+                                            .requires('state').toBeString().withMinLength(1)
+                                            .build();
+
+    private providers: Map<string, IdentityProvider>;
+
+    constructor(
+        providers: IdentityProvider[],
+        private externalIdentitiesService: ExternalIdentitiesService,
+        private usersService: UsersService,
+        private authService: AuthenticationService,
+        private bdeService: BDEService,
+        private loggingService: LoggingService
+    ) {
+        this.providers = new Map(providers.map((provider) => [provider.id, provider]));
+    }
+
+    /**
+     * Finds the user linked to the given external identity. If the account of the identity provider is not linked yet,
+     * it's linked to the user with the same email, provided the identity provider verified this email.
+     *
+     * @returns the linked user, or null if no registered user matches the identity
+     *
+     * @param identity The identity authenticated by the identity provider
+     */
+    private async findLinkedUser(identity: AuthenticatedIdentity): Promise<User | null> {
+        try {
+            return await this.findUserOfLink(identity);
+        } catch (e) {
+            if (e.type !== ExternalIdentitiesErrorType.IDENTITY_NOT_EXISTS) {
+                throw e;
+            }
+        }
+
+        if (!identity.emailVerified) {
+            return null;
+        }
+
+        let user: User;
+        try {
+            user = await this.usersService.findByEmail(identity.email);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return null;
+            }
+            throw e;
+        }
+
+        try {
+            await this.externalIdentitiesService.create({
+                provider: identity.provider,
+                subject: identity.subject,
+                userUUID: user.userUUID,
+                linkedAt: DateTime.local(),
+            });
+        } catch (e) {
+            if (e.type !== ExternalIdentitiesErrorType.IDENTITY_ALREADY_EXISTS) {
+                throw e;
+            }
+            // A concurrent login linked the identity first : the link it created prevails
+            return await this.findUserOfLink(identity);
+        }
+        return user;
+    }
+
+    /**
+     * Finds the user an already linked external identity is linked to.
+     * Rejects with an IDENTITY_NOT_EXISTS error if the identity is not linked yet.
+     *
+     * @returns the linked user, or null if it does not exist anymore or is not registered
+     *
+     * @param identity The identity authenticated by the identity provider
+     */
+    private async findUserOfLink(identity: AuthenticatedIdentity): Promise<User | null> {
+        const link = await this.externalIdentitiesService.findBySubject(identity.provider, identity.subject);
+        try {
+            const user = await this.usersService.findByUUID(link.userUUID);
+            return (<User>user).password === undefined ? null : <User>user;
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return null;
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Handles a request that aims to start an authentication with the given identity provider.
+     * It returns the URL the user must be redirected to and the state the identity provider will send back : the client
+     * must keep this state and check it matches the one received once redirected back, before calling `callback`.
+     * This method always resolves.
+     *
+     * @param providerId The identifier of the identity provider
+     */
+    async authorize(providerId: string): Promise<httpCode.Response> {
+        const provider = this.providers.get(providerId);
+        if (!provider) {
+            return httpCode.notFound(`No identity provider with id ${providerId} exists.`);
+        }
+
+        /* The nonce is derived from the state so that the ID token is bound to the state kept by the client */
+        const state = generateOneTimeToken().token;
+        try {
+            const url = await provider.authorizationUrl(state, hashOneTimeToken(state));
+            return httpCode.ok({ url, state });
+        } catch (e) {
+            this.loggingService.error('Unable to reach identity provider.', e);
+            return httpCode.internalServerError('Unable to reach the identity provider. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles the authorization code the user has been redirected back with. The user linked to the authenticated
+     * account is logged in : as for `UsersController.connectUser`, tokens are returned unless a second factor is required.
+     * This method always resolves.
+     *
+     * @param providerId The identifier of the identity provider
+     * @param body The request body
+     */
+    async callback(providerId: string, body: object | null): Promise<httpCode.Response> {
+        const provider = this.providers.get(providerId);
+        if (!provider) {
+            return httpCode.notFound(`No identity provider with id ${providerId} exists.`);
+        }
+
+        const result = SsoController.CALLBACK_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let identity: AuthenticatedIdentity;
+        try {
+            identity = await provider.exchangeCode(result.value.code, hashOneTimeToken(result.value.state));
+        } catch (e) {
+            this.loggingService.warning('External authentication failed.', e);
+            return httpCode.unauthorized('Unable to authenticate with the identity provider.');
+        }
+
+        try {
+            const user = await this.findLinkedUser(identity);
+            if (!user) {
+                return httpCode.forbidden('No registered account matches the verified email of this identity.');
+            }
+
+            const step = await twoFactorStep(user, this.authService, this.bdeService);
+            if (step) {
+                const challengeToken = await this.authService.generateChallengeToken(user);
+                return httpCode.ok({ challengeToken, twoFactor: step });
+            }
+
+            const token = await this.authService.generateToken(user);
+            const refreshToken = await this.authService.generateRefreshToken(user);
+            return httpCode.ok({ token, refreshToken });
+        } catch (e) {
+            this.loggingService.error('Unable to authenticate user.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
+        }
+    }
+
+}
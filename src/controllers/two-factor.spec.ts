@@ -0,0 +1,63 @@
+import chai from 'chai';
+import { mock, instance, when, reset, anything, verify } from 'ts-mockito';
+import { AuthenticationService, BDEService } from '../services';
+import { twoFactorStep } from './two-factor';
+import { User, Permissions } from '../models';
+
+const { expect } = chai;
+
+describe('Two-factor authentication step', () => {
+
+    const authServiceMock = mock<AuthenticationService>();
+    const bdeServiceMock = mock<BDEService>();
+
+    const user: User = {
+        userUUID: 'user-uuid',
+        bdeUUID: 'bde-uuid',
+        email: 'valid-email@provider.tld',
+        firstname: 'Firstname',
+        lastname: 'Lastname',
+        password: 'password',
+        specialtyName: 'IG',
+        specialtyYear: 3,
+        permissions: [],
+        member: true,
+    };
+
+    beforeEach(() => {
+        reset(authServiceMock);
+        reset(bdeServiceMock);
+        when(authServiceMock.resolvePermissions(anything())).thenResolve([Permissions.MANAGE_BDE]);
+        when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [], enforceTwoFactor: true });
+    });
+
+    it('should require to verify the second factor if the user enabled two-factor authentication', async () => {
+        const step = await twoFactorStep({ ... user, twoFactor: { enabled: true, secret: 'secret', recoveryCodes: [] } }, instance(authServiceMock), instance(bdeServiceMock));
+
+        expect(step).to.eq('verify');
+    });
+
+    it('should require to enroll if the BDE enforces two-factor authentication for a privileged user', async () => {
+        const step = await twoFactorStep(user, instance(authServiceMock), instance(bdeServiceMock));
+
+        expect(step).to.eq('enroll');
+    });
+
+    it('should not require any step if the BDE does not enforce two-factor authentication', async () => {
+        when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [] });
+
+        const step = await twoFactorStep(user, instance(authServiceMock), instance(bdeServiceMock));
+
+        expect(step).to.be.null;
+    });
+
+    it('should not require any step for an user without privileged permission', async () => {
+        when(authServiceMock.resolvePermissions(anything())).thenResolve([]);
+
+        const step = await twoFactorStep(user, instance(authServiceMock), instance(bdeServiceMock));
+
+        expect(step).to.be.null;
+        verify(bdeServiceMock.findByUUID(anything())).never();
+    });
+
+});
@@ -0,0 +1,42 @@
+import { AuthenticationService, BDEService } from '../services';
+import { User } from '../models';
+import { hasPrivilegedPermission } from '../utils/permissions';
+
+/**
+ * Two-factor authentication step required for an user to log in : 'verify' if the user enabled two-factor authentication,
+ * 'enroll' if its BDE requires it to enable it.
+ */
+export type TwoFactorStep = 'verify' | 'enroll';
+
+/**
+ * Checks whether or not the BDE of the given user enforces two-factor authentication for this user.
+ * Only users having privileged permissions are concerned.
+ *
+ * @param user The user to check
+ * @param authService The service used to resolve the permissions of the user
+ * @param bdeService The service used to fetch the BDE of the user
+ */
+export async function isTwoFactorEnforced(user: User, authService: AuthenticationService, bdeService: BDEService): Promise<boolean> {
+    if (!hasPrivilegedPermission({ permissions: await authService.resolvePermissions(user) })) {
+        return false;
+    }
+    const bde = await bdeService.findByUUID(user.bdeUUID);
+    return !!bde.enforceTwoFactor;
+}
+
+/**
+ * Determines the two-factor authentication step required for the given user to log in, whatever the way it logs in
+ * (password, single-use link or identity provider).
+ *
+ * @returns the required step, or null if no step is required
+ *
+ * @param user The user logging in
+ * @param authService The service used to resolve the permissions of the user
+ * @param bdeService The service used to fetch the BDE of the user
+ */
+export async function twoFactorStep(user: User, authService: AuthenticationService, bdeService: BDEService): Promise<TwoFactorStep | null> {
+    if (user.twoFactor && user.twoFactor.enabled) {
+        return 'verify';
+    }
+    return await isTwoFactorEnforced(user, authService, bdeService) ? 'enroll' : null;
+}
@@ -1,10 +1,15 @@
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
-import { mock, instance, verify, when, anything, reset, deepEqual } from 'ts-mockito';
-import { UsersService, AuthenticationService, MailingService, UsersServiceError, UsersErrorType, JWTClaims, LoggingService } from '../services';
+import { mock, instance, verify, when, anything, reset, deepEqual, capture } from 'ts-mockito';
+import { UsersService, AuthenticationService, MailingService, UsersServiceError, UsersErrorType, JWTClaims, LoggingService, RefreshTokenServiceError, RefreshTokenErrorType, OneTimeTokenService, OneTimeTokenServiceError, OneTimeTokenErrorType, LoginThrottler, BDEService } from '../services';
 import { UsersController } from '../controllers';
 import { HttpCode } from '../utils/http-code';
-import { User, UnregisteredUser, Permissions } from '../models';
+import { User, UnregisteredUser, Permissions, OneTimeTokenType } from '../models';
+import { hashOneTimeToken } from '../utils/one-time-token';
+import { generateTotp, generateTotpSecret } from '../utils/totp';
+import { DEFAULT_PASSWORD_POLICY } from '../utils/password-policy';
+import { createConfig } from '../config';
+import { DateTime } from 'luxon';
 
 chai.use(chaiAsPromised);
 
@@ -16,13 +21,32 @@ describe('Users controller', () => {
     const authServiceMock = mock<AuthenticationService>();
     const mailingServiceMock = mock<MailingService>();
     const loggingServiceMock = mock<LoggingService>();
-    const controller = new UsersController(instance(usersServiceMock), instance(authServiceMock), instance(mailingServiceMock), instance(loggingServiceMock));
+    const oneTimeTokenServiceMock = mock<OneTimeTokenService>();
+    const loginThrottlerMock = mock<LoginThrottler>();
+    const bdeServiceMock = mock<BDEService>();
+    const controller = new UsersController(
+        instance(usersServiceMock),
+        instance(authServiceMock),
+        instance(mailingServiceMock),
+        instance(loggingServiceMock),
+        instance(oneTimeTokenServiceMock),
+        instance(bdeServiceMock),
+        createConfig({ magicLinkLogin: true }),
+        DEFAULT_PASSWORD_POLICY,
+        instance(loginThrottlerMock)
+    );
 
     beforeEach(() => {
         reset(usersServiceMock);
         reset(mailingServiceMock);
         reset(authServiceMock);
+        reset(oneTimeTokenServiceMock);
+        reset(loginThrottlerMock);
+        reset(bdeServiceMock);
         when(authServiceMock.hashPassword('thepassword')).thenResolve('thepassword');
+        when(authServiceMock.resolvePermissions(anything())).thenCall((user: User) => Promise.resolve(user.permissions));
+        when(loginThrottlerMock.retryAfter(anything(), anything())).thenResolve(0);
+        when(loginThrottlerMock.reserve(anything(), anything())).thenResolve(0);
     });
 
     describe('create', () => {
@@ -425,6 +449,24 @@ describe('Users controller', () => {
             expect(result.code).to.eq(HttpCode.BadRequest);
         });
 
+        it('should record a failed attempt when credentials are invalid', async () => {
+            when(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).thenReject(new Error('Invalid credentials.'));
+
+            await controller.connectUser({ email: 'Valid-Email@provider.tld', password: 'thepassword' }, '127.0.0.1');
+
+            verify(loginThrottlerMock.recordFailure('valid-email@provider.tld', '127.0.0.1')).once();
+        });
+
+        it('should return "too many requests" http code without checking credentials when attempts are throttled', async () => {
+            when(loginThrottlerMock.reserve('valid-email@provider.tld', '127.0.0.1')).thenResolve(30);
+
+            const result = await controller.connectUser({ email: 'valid-email@provider.tld', password: 'thepassword' }, '127.0.0.1');
+
+            verify(authServiceMock.authenticate(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.TooManyRequests);
+            expect(result.body['retryAfter']).to.eq(30);
+        });
+
         it('should return "bad request" http code when auth service rejects with INTERNAL error.', async () => {
             when(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).thenReject(new UsersServiceError('', UsersErrorType.INTERNAL));
             
@@ -478,6 +520,7 @@ describe('Users controller', () => {
             };
             when(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).thenResolve(user);
             when(authServiceMock.generateToken(deepEqual(user))).thenResolve('the-token');
+            when(authServiceMock.generateRefreshToken(deepEqual(user))).thenResolve('the-refresh-token');
 
             const result = await controller.connectUser({
                 email: 'valid-email@provider.tld',
@@ -486,8 +529,1181 @@ describe('Users controller', () => {
 
             verify(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).once();
             verify(authServiceMock.generateToken(deepEqual(user))).once();
+            verify(authServiceMock.generateRefreshToken(deepEqual(user))).once();
             expect(result.code).to.eq(HttpCode.Ok);
             expect(result.body).to.have.property('token', 'the-token');
+            expect(result.body).to.have.property('refreshToken', 'the-refresh-token');
+        });
+
+        it('should return a challenge token instead of tokens when two-factor authentication is enabled', async () => {
+            const user: User = {
+                userUUID: 'the-uuid',
+                bdeUUID: 'bde-uuid',
+                email: 'valid-email@provider.tld',
+                firstname: 'Firstname',
+                lastname: 'LASTNAME',
+                password: 'thepassword',
+                specialtyName: 'IG',
+                specialtyYear: 2,
+                permissions: [],
+                member: false,
+                twoFactor: { secret: generateTotpSecret(), enabled: true, recoveryCodes: [] },
+            };
+            when(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).thenResolve(user);
+            when(authServiceMock.generateChallengeToken(user)).thenResolve('the-challenge-token');
+
+            const result = await controller.connectUser({ email: 'valid-email@provider.tld', password: 'thepassword' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            verify(loginThrottlerMock.recordSuccess(anything())).never();
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ challengeToken: 'the-challenge-token', twoFactor: 'verify' });
+        });
+
+        it('should require enrollment when the BDE enforces two-factor authentication for privileged users', async () => {
+            const user: User = {
+                userUUID: 'the-uuid',
+                bdeUUID: 'bde-uuid',
+                email: 'valid-email@provider.tld',
+                firstname: 'Firstname',
+                lastname: 'LASTNAME',
+                password: 'thepassword',
+                specialtyName: 'IG',
+                specialtyYear: 2,
+                permissions: [Permissions.MANAGE_PERMISSIONS],
+                member: false,
+            };
+            when(authServiceMock.authenticate('valid-email@provider.tld', 'thepassword')).thenResolve(user);
+            when(authServiceMock.generateChallengeToken(user)).thenResolve('the-challenge-token');
+            when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [], enforceTwoFactor: true });
+
+            const result = await controller.connectUser({ email: 'valid-email@provider.tld', password: 'thepassword' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ challengeToken: 'the-challenge-token', twoFactor: 'enroll' });
+        });
+
+    });
+
+    describe('two-factor authentication', () => {
+
+        const secret = generateTotpSecret();
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [Permissions.MANAGE_BDE],
+            member: false,
+            twoFactor: { secret, enabled: true, recoveryCodes: [hashOneTimeToken('recovery01')] },
+        };
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [Permissions.MANAGE_BDE],
+            uuid: 'the-uuid',
+        };
+
+        beforeEach(() => {
+            when(authServiceMock.verifyChallengeToken('the-challenge-token')).thenResolve('the-uuid');
+            when(authServiceMock.consumeChallengeToken('the-challenge-token')).thenResolve('the-uuid');
+            when(usersServiceMock.consumeTotpStep('the-uuid', anything())).thenResolve(true);
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(authServiceMock.generateToken(anything())).thenResolve('the-token');
+            when(authServiceMock.generateRefreshToken(anything())).thenResolve('the-refresh-token');
+            when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [], enforceTwoFactor: false });
+        });
+
+        describe('verifyTwoFactor', () => {
+
+            it('should return "unauthorized" http code when challenge token is invalid', async () => {
+                when(authServiceMock.verifyChallengeToken('the-challenge-token')).thenReject(new Error());
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', code: '000000' });
+
+                expect(result.code).to.eq(HttpCode.Unauthorized);
+            });
+
+            it('should record a failed attempt when code is invalid', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', code: 'abcdef' }, '127.0.0.1');
+
+                verify(loginThrottlerMock.recordFailure('valid-email@provider.tld', '127.0.0.1')).once();
+                verify(authServiceMock.generateToken(anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+            it('should return tokens when code is valid', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', code: generateTotp(secret) });
+
+                expect(result.code).to.eq(HttpCode.Ok);
+                expect(result.body).to.deep.eq({ token: 'the-token', refreshToken: 'the-refresh-token' });
+            });
+
+            it('should consume a valid recovery code', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(usersServiceMock.consumeRecoveryCode('the-uuid', hashOneTimeToken('recovery01'))).thenResolve(true);
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', recoveryCode: 'RECOVERY01' });
+
+                expect(result.code).to.eq(HttpCode.Ok);
+                verify(usersServiceMock.consumeRecoveryCode('the-uuid', hashOneTimeToken('recovery01'))).once();
+            });
+
+            it('should return "bad request" http code when the recovery code has already been used', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(usersServiceMock.consumeRecoveryCode('the-uuid', hashOneTimeToken('recovery01'))).thenResolve(false);
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', recoveryCode: 'RECOVERY01' });
+
+                verify(authServiceMock.generateToken(anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+            it('should return "bad request" http code when the code has already been used', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(usersServiceMock.consumeTotpStep('the-uuid', anything())).thenResolve(false);
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', code: generateTotp(secret) });
+
+                verify(authServiceMock.generateToken(anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+            it('should return "unauthorized" http code when the challenge token has already been used', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(authServiceMock.consumeChallengeToken('the-challenge-token')).thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+                const result = await controller.verifyTwoFactor({ challengeToken: 'the-challenge-token', code: generateTotp(secret) });
+
+                verify(authServiceMock.generateToken(anything())).never();
+                expect(result.code).to.eq(HttpCode.Unauthorized);
+            });
+
+        });
+
+        describe('enrollTwoFactor', () => {
+
+            it('should return "unauthorized" http code when no token is given', async () => {
+                const result = await controller.enrollTwoFactor(null);
+
+                expect(result.code).to.eq(HttpCode.Unauthorized);
+            });
+
+            it('should return "bad request" http code when two-factor authentication is already enabled', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+                const result = await controller.enrollTwoFactor({ challengeToken: 'the-challenge-token' });
+
+                verify(usersServiceMock.updateTwoFactor(anything(), anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+            it('should store a pending secret', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve({ ... user, twoFactor: undefined });
+
+                const result = await controller.enrollTwoFactor(null, 'the-token');
+
+                expect(result.code).to.eq(HttpCode.Ok);
+                expect(result.body['uri']).to.have.string(result.body['secret']);
+                verify(usersServiceMock.updateTwoFactor('the-uuid', deepEqual({ secret: result.body['secret'], enabled: false, recoveryCodes: [] }))).once();
+            });
+
+        });
+
+        describe('confirmTwoFactor', () => {
+
+            const pendingUser: User = { ... user, twoFactor: { secret, enabled: false, recoveryCodes: [] } };
+
+            it('should return "bad request" http code when code is invalid', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(pendingUser);
+
+                const result = await controller.confirmTwoFactor({ code: '12345' }, 'the-token');
+
+                verify(usersServiceMock.updateTwoFactor(anything(), anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+            it('should enable two-factor authentication and return recovery codes', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(pendingUser);
+
+                const result = await controller.confirmTwoFactor({ code: generateTotp(secret) }, 'the-token');
+
+                expect(result.code).to.eq(HttpCode.Ok);
+                expect(result.body['recoveryCodes']).to.have.length(10);
+                expect(result.body).to.not.have.property('token');
+                const [, twoFactor] = capture(usersServiceMock.updateTwoFactor).last();
+                expect(twoFactor!.enabled).to.be.true;
+                expect(twoFactor!.recoveryCodes).to.deep.eq(result.body['recoveryCodes'].map((code: string) => hashOneTimeToken(code)));
+                expect(twoFactor!.lastUsedStep).to.be.closeTo(Math.floor(Date.now() / 1000 / 30), 1);
+            });
+
+            it('should complete the login when the user is identified by a challenge token', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(pendingUser);
+
+                const result = await controller.confirmTwoFactor({ code: generateTotp(secret), challengeToken: 'the-challenge-token' });
+
+                expect(result.code).to.eq(HttpCode.Ok);
+                expect(result.body).to.have.property('token', 'the-token');
+                expect(result.body).to.have.property('refreshToken', 'the-refresh-token');
+                verify(authServiceMock.consumeChallengeToken('the-challenge-token')).once();
+            });
+
+        });
+
+        describe('disableTwoFactor', () => {
+
+            it('should return "forbidden" http code when the BDE enforces two-factor authentication', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({ bdeUUID: 'bde-uuid', bdeName: 'BDE', specialties: [], enforceTwoFactor: true });
+
+                const result = await controller.disableTwoFactor({ code: generateTotp(secret) }, 'the-token');
+
+                verify(usersServiceMock.updateTwoFactor(anything(), anything())).never();
+                expect(result.code).to.eq(HttpCode.Forbidden);
+            });
+
+            it('should disable two-factor authentication when code is valid', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+                const result = await controller.disableTwoFactor({ code: generateTotp(secret) }, 'the-token');
+
+                verify(usersServiceMock.updateTwoFactor('the-uuid', null)).once();
+                expect(result.code).to.eq(HttpCode.NotContent);
+            });
+
+            it('should return "bad request" http code when the code has already been used', async () => {
+                when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+                when(usersServiceMock.consumeTotpStep('the-uuid', anything())).thenResolve(false);
+
+                const result = await controller.disableTwoFactor({ code: generateTotp(secret) }, 'the-token');
+
+                verify(usersServiceMock.updateTwoFactor(anything(), anything())).never();
+                expect(result.code).to.eq(HttpCode.BadRequest);
+            });
+
+        });
+
+    });
+
+    describe('unlockUser', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [Permissions.MANAGE_USERS],
+            uuid: 'the-uuid',
+        };
+
+        const user: UnregisteredUser = {
+            userUUID: 'other-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            permissions: [],
+            member: false,
+        };
+
+        it('should return "forbidden" http code when user can not manage users of the BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... claims, permissions: [] });
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve(user);
+
+            const result = await controller.unlockUser('other-uuid', 'the-token');
+
+            verify(loginThrottlerMock.unlock(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should unlock the user account', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve(user);
+
+            const result = await controller.unlockUser('other-uuid', 'the-token');
+
+            verify(loginThrottlerMock.unlock('valid-email@provider.tld')).once();
+            expect(result.code).to.eq(HttpCode.NotContent);
+        });
+
+    });
+
+    describe('refreshToken', () => {
+
+        it('should return "bad request" http code when no refresh token is given', async () => {
+            const result = await controller.refreshToken({});
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('refreshToken');
+        });
+
+        it('should return "unauthorized" http code when auth service rejects the refresh token', async () => {
+            when(authServiceMock.refreshTokens('the-refresh-token')).thenReject(new Error('Invalid token'));
+
+            const result = await controller.refreshToken({ refreshToken: 'the-refresh-token' });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "internal server error" http code when refresh token service rejects with INTERNAL error', async () => {
+            when(authServiceMock.refreshTokens('the-refresh-token')).thenReject(new RefreshTokenServiceError('', RefreshTokenErrorType.INTERNAL));
+
+            const result = await controller.refreshToken({ refreshToken: 'the-refresh-token' });
+
+            expect(result.code).to.eq(HttpCode.InternalServerError);
+        });
+
+        it('should return "ok" http code with new tokens when auth service resolves', async () => {
+            when(authServiceMock.refreshTokens('the-refresh-token')).thenResolve({ token: 'new-token', refreshToken: 'new-refresh-token' });
+
+            const result = await controller.refreshToken({ refreshToken: 'the-refresh-token' });
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.eql({ token: 'new-token', refreshToken: 'new-refresh-token' });
+        });
+
+    });
+
+    describe('revokeRefreshToken', () => {
+
+        it('should return "unauthorized" http code when auth service rejects the refresh token', async () => {
+            when(authServiceMock.revokeRefreshToken('the-refresh-token')).thenReject(new Error('Invalid token'));
+
+            const result = await controller.revokeRefreshToken({ refreshToken: 'the-refresh-token' });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "no content" http code and revoke access token when one is given', async () => {
+            when(authServiceMock.revokeRefreshToken('the-refresh-token')).thenResolve();
+            when(authServiceMock.revokeToken('the-token')).thenResolve();
+
+            const result = await controller.revokeRefreshToken({ refreshToken: 'the-refresh-token' }, 'the-token');
+
+            verify(authServiceMock.revokeRefreshToken('the-refresh-token')).once();
+            verify(authServiceMock.revokeToken('the-token')).once();
+            expect(result.code).to.eq(HttpCode.NotContent);
+        });
+
+    });
+
+    describe('revokeUserSessions', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'the-uuid',
+        };
+
+        it('should return "unauthorized" http code when no token is given', async () => {
+            const result = await controller.revokeUserSessions('the-uuid');
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "no content" http code when user revokes its own sessions', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(authServiceMock.revokeUserSessions('the-uuid')).thenResolve();
+
+            const result = await controller.revokeUserSessions('the-uuid', 'the-token');
+
+            verify(authServiceMock.revokeUserSessions('the-uuid')).once();
+            expect(result.code).to.eq(HttpCode.NotContent);
+        });
+
+        it('should return "forbidden" http code when user tries to revoke sessions of an other user without permission', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve({
+                userUUID: 'other-uuid',
+                bdeUUID: 'bde-uuid',
+                email: 'valid-email@provider.tld',
+                permissions: [],
+                member: false,
+            });
+
+            const result = await controller.revokeUserSessions('other-uuid', 'the-token');
+
+            verify(authServiceMock.revokeUserSessions(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+    });
+
+    describe('requestPasswordReset', () => {
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        it('should return "bad request" http code when given email is invalid', async () => {
+            const result = await controller.requestPasswordReset({ email: 'invalid-email@' });
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('email');
+        });
+
+        it('should return "ok" http code without sending mail when no user has the given email', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenReject(new UsersServiceError('', UsersErrorType.USER_NOT_EXISTS));
+
+            const result = await controller.requestPasswordReset({ email: 'valid-email@provider.tld' });
+
+            verify(oneTimeTokenServiceMock.create(anything())).never();
+            verify(mailingServiceMock.sendPasswordResetMail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Ok);
+        });
+
+        it('should store the token hash and mail the token when user exists', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenResolve(user);
+
+            const result = await controller.requestPasswordReset({ email: 'valid-email@provider.tld' });
+
+            const [ storedToken ] = capture(oneTimeTokenServiceMock.create).last();
+            const [ mailedUser, mailedToken ] = capture(mailingServiceMock.sendPasswordResetMail).last();
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(mailedUser).to.eq(user);
+            expect(storedToken.tokenHash).to.eq(hashOneTimeToken(mailedToken));
+            expect(storedToken.type).to.eq(OneTimeTokenType.PASSWORD_RESET);
+            expect(storedToken.userUUID).to.eq(user.userUUID);
+        });
+
+        it('should return "internal server error" http code when mailing service rejects', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenResolve(user);
+            when(mailingServiceMock.sendPasswordResetMail(anything(), anything())).thenReject(new Error(''));
+
+            const result = await controller.requestPasswordReset({ email: 'valid-email@provider.tld' });
+
+            expect(result.code).to.eq(HttpCode.InternalServerError);
+        });
+
+    });
+
+    describe('resetPassword', () => {
+
+        const tokenHash = hashOneTimeToken('the-reset-token');
+
+        it('should return "bad request" http code when given password is too short', async () => {
+            const result = await controller.resetPassword({ token: 'the-reset-token', password: 'length<10' });
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('password');
+        });
+
+        it('should return "bad request" http code when given password is too common', async () => {
+            const result = await controller.resetPassword({ token: 'the-reset-token', password: 'motdepasse' });
+
+            verify(oneTimeTokenServiceMock.consume(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['errors']).to.deep.eq(['The password is too common.']);
+        });
+
+        it('should return "bad request" http code when given token does not exist', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.PASSWORD_RESET))
+                .thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+            const result = await controller.resetPassword({ token: 'the-reset-token', password: 'thepassword' });
+
+            verify(usersServiceMock.updatePassword(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when given token has expired', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.PASSWORD_RESET)).thenResolve({
+                tokenHash,
+                type: OneTimeTokenType.PASSWORD_RESET,
+                userUUID: 'the-uuid',
+                expiresAt: DateTime.local().minus({ minutes: 1 }),
+            });
+
+            const result = await controller.resetPassword({ token: 'the-reset-token', password: 'thepassword' });
+
+            verify(usersServiceMock.updatePassword(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should update the password and revoke sessions when given token is valid', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.PASSWORD_RESET)).thenResolve({
+                tokenHash,
+                type: OneTimeTokenType.PASSWORD_RESET,
+                userUUID: 'the-uuid',
+                expiresAt: DateTime.local().plus({ minutes: 1 }),
+            });
+
+            const result = await controller.resetPassword({ token: 'the-reset-token', password: 'thepassword' });
+
+            verify(authServiceMock.hashPassword('thepassword')).once();
+            verify(usersServiceMock.updatePassword('the-uuid', 'thepassword')).once();
+            verify(authServiceMock.revokeUserSessions('the-uuid')).once();
+            expect(result.code).to.eq(HttpCode.NotContent);
+        });
+
+    });
+
+    describe('requestMagicLink', () => {
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        it('should return "forbidden" http code when login links are disabled', async () => {
+            const disabledController = new UsersController(
+                instance(usersServiceMock),
+                instance(authServiceMock),
+                instance(mailingServiceMock),
+                instance(loggingServiceMock),
+                instance(oneTimeTokenServiceMock),
+                instance(bdeServiceMock),
+                createConfig(),
+                DEFAULT_PASSWORD_POLICY,
+                instance(loginThrottlerMock)
+            );
+
+            const result = await disabledController.requestMagicLink({ email: 'valid-email@provider.tld' });
+
+            verify(mailingServiceMock.sendMagicLinkMail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "ok" http code without sending mail when no user has the given email', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenReject(new UsersServiceError('', UsersErrorType.USER_NOT_EXISTS));
+
+            const result = await controller.requestMagicLink({ email: 'valid-email@provider.tld' });
+
+            verify(mailingServiceMock.sendMagicLinkMail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Ok);
+        });
+
+        it('should return "too many requests" http code when login attempts are throttled', async () => {
+            when(loginThrottlerMock.reserve('valid-email@provider.tld', '1.2.3.4')).thenResolve(60);
+
+            const result = await controller.requestMagicLink({ email: 'valid-email@provider.tld' }, '1.2.3.4');
+
+            verify(usersServiceMock.findByEmail(anything())).never();
+            verify(mailingServiceMock.sendMagicLinkMail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.TooManyRequests);
+            expect(result.body['retryAfter']).to.eq(60);
+        });
+
+        it('should count the request as a login attempt even when no user has the given email', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenReject(new UsersServiceError('', UsersErrorType.USER_NOT_EXISTS));
+
+            await controller.requestMagicLink({ email: 'Valid-Email@provider.tld' }, '1.2.3.4');
+
+            verify(loginThrottlerMock.reserve('valid-email@provider.tld', '1.2.3.4')).once();
+        });
+
+        it('should invalidate the login links previously sent to the user', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenResolve(user);
+
+            await controller.requestMagicLink({ email: 'valid-email@provider.tld' });
+
+            verify(oneTimeTokenServiceMock.deleteForUser('the-uuid', OneTimeTokenType.MAGIC_LINK)).calledBefore(oneTimeTokenServiceMock.create(anything()));
+        });
+
+        it('should store the token hash and mail the token when user exists', async () => {
+            when(usersServiceMock.findByEmail('valid-email@provider.tld')).thenResolve(user);
+
+            const result = await controller.requestMagicLink({ email: 'Valid-Email@provider.tld' });
+
+            const [ storedToken ] = capture(oneTimeTokenServiceMock.create).last();
+            const [ mailedUser, mailedToken ] = capture(mailingServiceMock.sendMagicLinkMail).last();
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(mailedUser).to.eq(user);
+            expect(storedToken.tokenHash).to.eq(hashOneTimeToken(mailedToken));
+            expect(storedToken.type).to.eq(OneTimeTokenType.MAGIC_LINK);
+            expect(storedToken.expiresAt.diffNow('minutes').minutes).to.be.closeTo(15, 1);
+        });
+
+    });
+
+    describe('connectWithMagicLink', () => {
+
+        const tokenHash = hashOneTimeToken('the-login-token');
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        const validToken = {
+            tokenHash,
+            type: OneTimeTokenType.MAGIC_LINK,
+            userUUID: 'the-uuid',
+            expiresAt: DateTime.local().plus({ minutes: 1 }),
+        };
+
+        it('should return "bad request" http code when given token does not exist', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.MAGIC_LINK))
+                .thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+            const result = await controller.connectWithMagicLink({ token: 'the-login-token' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when given token has expired', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.MAGIC_LINK)).thenResolve({ ... validToken, expiresAt: DateTime.local().minus({ minutes: 1 }) });
+
+            const result = await controller.connectWithMagicLink({ token: 'the-login-token' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "too many requests" http code when the account is locked', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.MAGIC_LINK)).thenResolve(validToken);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+            when(loginThrottlerMock.retryAfter('valid-email@provider.tld', anything())).thenResolve(60);
+
+            const result = await controller.connectWithMagicLink({ token: 'the-login-token' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            expect(result.code).to.eq(HttpCode.TooManyRequests);
+        });
+
+        it('should return a challenge token when the user enabled two-factor authentication', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.MAGIC_LINK)).thenResolve(validToken);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve({ ... user, twoFactor: { secret: 'secret', enabled: true, recoveryCodes: [] } });
+            when(authServiceMock.generateChallengeToken(anything())).thenResolve('the-challenge-token');
+
+            const result = await controller.connectWithMagicLink({ token: 'the-login-token' });
+
+            verify(authServiceMock.generateToken(anything())).never();
+            expect(result.body).to.deep.eq({ challengeToken: 'the-challenge-token', twoFactor: 'verify' });
+        });
+
+        it('should return tokens when given token is valid', async () => {
+            when(oneTimeTokenServiceMock.consume(tokenHash, OneTimeTokenType.MAGIC_LINK)).thenResolve(validToken);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+            when(authServiceMock.generateToken(user)).thenResolve('the-token');
+            when(authServiceMock.generateRefreshToken(user)).thenResolve('the-refresh-token');
+
+            const result = await controller.connectWithMagicLink({ token: 'the-login-token' });
+
+            verify(loginThrottlerMock.recordSuccess('valid-email@provider.tld')).once();
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ token: 'the-token', refreshToken: 'the-refresh-token' });
+        });
+
+    });
+
+    describe('changePassword', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'the-uuid',
+        };
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'currentpassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        const validBody = { currentPassword: 'currentpassword', newPassword: 'thepassword' };
+
+        beforeEach(() => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+        });
+
+        it('should return "forbidden" http code when an API key is given', async () => {
+            when(authServiceMock.verifyToken('the-api-key')).thenResolve({ ... claims, uuid: 'api-key-uuid', apiKey: true });
+
+            const result = await controller.changePassword(validBody, 'the-api-key');
+
+            verify(usersServiceMock.findByUUID(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "unauthorized" http code when no token is given', async () => {
+            const result = await controller.changePassword(validBody);
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "bad request" http code when new password is too short', async () => {
+            const result = await controller.changePassword({ ... validBody, newPassword: 'short' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('password');
+        });
+
+        it('should return "bad request" http code when current password does not match', async () => {
+            when(authServiceMock.checkPassword(user, 'currentpassword')).thenResolve(false);
+
+            const result = await controller.changePassword(validBody, 'the-token', '127.0.0.1');
+
+            verify(usersServiceMock.updatePassword(anything(), anything())).never();
+            verify(loginThrottlerMock.recordFailure('valid-email@provider.tld', '127.0.0.1')).once();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "too many requests" http code without checking the current password when attempts are throttled', async () => {
+            when(loginThrottlerMock.reserve('valid-email@provider.tld', '127.0.0.1')).thenResolve(30);
+
+            const result = await controller.changePassword(validBody, 'the-token', '127.0.0.1');
+
+            verify(authServiceMock.checkPassword(anything(), anything())).never();
+            verify(usersServiceMock.updatePassword(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.TooManyRequests);
+            expect(result.body['retryAfter']).to.eq(30);
+        });
+
+        it('should store new password, revoke sessions and return new tokens', async () => {
+            when(authServiceMock.checkPassword(user, 'currentpassword')).thenResolve(true);
+            when(authServiceMock.generateToken(anything())).thenResolve('new-token');
+            when(authServiceMock.generateRefreshToken(anything())).thenResolve('new-refresh-token');
+
+            const result = await controller.changePassword(validBody, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ token: 'new-token', refreshToken: 'new-refresh-token' });
+            verify(loginThrottlerMock.recordSuccess('valid-email@provider.tld')).once();
+            verify(usersServiceMock.updatePassword('the-uuid', 'thepassword')).once();
+            verify(authServiceMock.revokeUserSessions('the-uuid')).calledBefore(authServiceMock.generateToken(anything()));
+        });
+
+    });
+
+    describe('requestEmailChange', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'the-uuid',
+        };
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        it('should return "unauthorized" http code when no token is given', async () => {
+            const result = await controller.requestEmailChange({ email: 'new-email@provider.tld' });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "bad request" http code when given email is invalid', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+
+            const result = await controller.requestEmailChange({ email: 'invalid-email@' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('email');
+        });
+
+        it('should store a hashed email change token and send the code to the new address', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+            const result = await controller.requestEmailChange({ email: 'New-Email@provider.tld' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [storedToken] = capture(oneTimeTokenServiceMock.create).last();
+            const [, newEmail, code] = capture(mailingServiceMock.sendEmailChangeMail).last();
+            expect(newEmail).to.eq('new-email@provider.tld');
+            expect(storedToken.type).to.eq(OneTimeTokenType.EMAIL_CHANGE);
+            expect(storedToken.data).to.eq('new-email@provider.tld');
+            expect(storedToken.tokenHash).to.eq(hashOneTimeToken(code));
+        });
+
+    });
+
+    describe('confirmEmailChange', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'the-uuid',
+        };
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 2,
+            permissions: [],
+            member: false,
+        };
+
+        const changeToken = {
+            tokenHash: hashOneTimeToken('the-code'),
+            type: OneTimeTokenType.EMAIL_CHANGE,
+            userUUID: 'the-uuid',
+            expiresAt: DateTime.local().plus({ hours: 1 }),
+            data: 'new-email@provider.tld',
+        };
+
+        beforeEach(() => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+        });
+
+        it('should return "bad request" http code when code does not exist', async () => {
+            when(oneTimeTokenServiceMock.consume(anything(), anything(), anything())).thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+            const result = await controller.confirmEmailChange({ token: 'the-code' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code without consuming the code when it has been issued to an other user', async () => {
+            when(authServiceMock.verifyToken('other-token')).thenResolve({ ... claims, uuid: 'other-uuid' });
+            when(oneTimeTokenServiceMock.consume(hashOneTimeToken('the-code'), OneTimeTokenType.EMAIL_CHANGE, 'other-uuid')).thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+            const result = await controller.confirmEmailChange({ token: 'the-code' }, 'other-token');
+
+            verify(oneTimeTokenServiceMock.consume(anything(), anything(), 'the-uuid')).never();
+            verify(usersServiceMock.updateEmail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when code has expired', async () => {
+            when(oneTimeTokenServiceMock.consume(hashOneTimeToken('the-code'), OneTimeTokenType.EMAIL_CHANGE, 'the-uuid')).thenResolve({ ... changeToken, expiresAt: DateTime.local().minus({ minutes: 1 }) });
+
+            const result = await controller.confirmEmailChange({ token: 'the-code' }, 'the-token');
+
+            verify(usersServiceMock.updateEmail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when new email is already used', async () => {
+            when(oneTimeTokenServiceMock.consume(hashOneTimeToken('the-code'), OneTimeTokenType.EMAIL_CHANGE, 'the-uuid')).thenResolve(changeToken);
+            when(usersServiceMock.updateEmail('the-uuid', 'new-email@provider.tld')).thenReject(new UsersServiceError('', UsersErrorType.USER_ALREADY_EXISTS));
+
+            const result = await controller.confirmEmailChange({ token: 'the-code' }, 'the-token');
+
+            verify(mailingServiceMock.sendEmailChangedNoticeMail(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should change email and notify the previous address', async () => {
+            when(oneTimeTokenServiceMock.consume(hashOneTimeToken('the-code'), OneTimeTokenType.EMAIL_CHANGE, 'the-uuid')).thenResolve(changeToken);
+
+            const result = await controller.confirmEmailChange({ token: 'the-code' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            verify(usersServiceMock.updateEmail('the-uuid', 'new-email@provider.tld')).once();
+            verify(mailingServiceMock.sendEmailChangedNoticeMail(user, 'new-email@provider.tld')).once();
+        });
+
+    });
+
+    describe('updatePermissions', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [Permissions.MANAGE_PERMISSIONS],
+            uuid: 'the-uuid',
+        };
+
+        const target: UnregisteredUser = {
+            userUUID: 'other-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            permissions: [Permissions.MANAGE_USERS],
+            member: false,
+        };
+
+        it('should return "unauthorized" http code when no token is given', async () => {
+            const result = await controller.updatePermissions('other-uuid', { add: ['manage_events'] });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "bad request" http code when an unknown permission is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+
+            const result = await controller.updatePermissions('other-uuid', { add: ['unknown'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "forbidden" http code when a non-modifiable permission is given', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve(target);
+
+            const result = await controller.updatePermissions('other-uuid', { add: ['all'] }, 'the-token');
+
+            verify(usersServiceMock.updatePermissions(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code when user can not manage permissions of the targeted user', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve({ ... target, bdeUUID: 'other-bde-uuid' });
+
+            const result = await controller.updatePermissions('other-uuid', { add: ['manage_events'] }, 'the-token');
+
+            verify(usersServiceMock.updatePermissions(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "not found" http code when targeted user does not exist', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenReject(new UsersServiceError('', UsersErrorType.USER_NOT_EXISTS));
+
+            const result = await controller.updatePermissions('other-uuid', { add: ['manage_events'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should grant and revoke the given permissions', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve(target);
+
+            const result = await controller.updatePermissions('other-uuid', { add: ['manage_events', 'manage_events'], remove: ['add_user'] }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body['permissions']).to.deep.eq(['manage_events']);
+            const [uuid, permissions] = capture(usersServiceMock.updatePermissions).last();
+            expect(uuid).to.eq('other-uuid');
+            expect(permissions).to.deep.eq([Permissions.MANAGE_EVENTS]);
+            verify(authServiceMock.renewSecurityStamp('other-uuid')).once();
+        });
+
+    });
+
+    describe('getUser', () => {
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 3,
+            permissions: [],
+            member: false,
+            securityStamp: 'the-security-stamp',
+        };
+
+        it('should not return the password, the second factor and the security stamp of the user', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ bdeUUID: 'bde-uuid', firstname: 'Firstname', lastname: 'Lastname', permissions: [], uuid: 'the-uuid' });
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve({ ... user, twoFactor: { enabled: true, secret: 'secret', recoveryCodes: [] } });
+
+            const result = await controller.getUser('the-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(Object.keys(result.body)).to.not.contain('password');
+            expect(Object.keys(result.body)).to.not.contain('twoFactor');
+            expect(Object.keys(result.body)).to.not.contain('securityStamp');
+        });
+
+    });
+
+    describe('listUsersForBDE', () => {
+
+        it('should not return the passwords, the second factors and the security stamps of the users', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ bdeUUID: 'bde-uuid', firstname: 'Firstname', lastname: 'Lastname', permissions: [Permissions.MANAGE_USERS], uuid: 'manager-uuid' });
+            when(usersServiceMock.findAll('bde-uuid')).thenResolve([{
+                userUUID: 'the-uuid',
+                bdeUUID: 'bde-uuid',
+                email: 'valid-email@provider.tld',
+                firstname: 'Firstname',
+                lastname: 'LASTNAME',
+                password: 'thepassword',
+                specialtyName: 'IG',
+                specialtyYear: 3,
+                permissions: [],
+                member: false,
+                securityStamp: 'the-security-stamp',
+            }]);
+
+            const result = await controller.listUsersForBDE('bde-uuid', 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(Object.keys(result.body[0])).to.not.contain('password');
+            expect(Object.keys(result.body[0])).to.not.contain('twoFactor');
+            expect(Object.keys(result.body[0])).to.not.contain('securityStamp');
+        });
+
+    });
+
+    describe('updateUser', () => {
+
+        const claims: JWTClaims = {
+            bdeUUID: 'bde-uuid',
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            permissions: [],
+            uuid: 'the-uuid',
+        };
+
+        const user: User = {
+            userUUID: 'the-uuid',
+            bdeUUID: 'bde-uuid',
+            email: 'valid-email@provider.tld',
+            firstname: 'Firstname',
+            lastname: 'LASTNAME',
+            password: 'thepassword',
+            specialtyName: 'IG',
+            specialtyYear: 3,
+            permissions: [],
+            member: false,
+            securityStamp: 'the-security-stamp',
+        };
+
+        beforeEach(() => {
+            when(bdeServiceMock.findByUUID('bde-uuid')).thenResolve({
+                bdeUUID: 'bde-uuid',
+                bdeName: 'BDE',
+                specialties: [{ name: 'IG', minYear: 3, maxYear: 5 }],
+            });
+        });
+
+        it('should return "unauthorized" http code when no token is given', async () => {
+            const result = await controller.updateUser('the-uuid', { year: 4 });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "bad request" http code when given year is invalid', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+
+            const result = await controller.updateUser('the-uuid', { year: 6 }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+            expect(result.body['message']).to.have.string('year');
+        });
+
+        it('should return "forbidden" http code when user tries to update an other user without permission', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve({ ... user, userUUID: 'other-uuid' });
+
+            const result = await controller.updateUser('other-uuid', { year: 4 }, 'the-token');
+
+            verify(usersServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code when user is not registered', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... claims, permissions: [Permissions.MANAGE_USERS] });
+            when(usersServiceMock.findByUUID('other-uuid')).thenResolve({
+                userUUID: 'other-uuid',
+                bdeUUID: 'bde-uuid',
+                email: 'other-email@provider.tld',
+                permissions: [],
+                member: false,
+            });
+
+            const result = await controller.updateUser('other-uuid', { year: 4 }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when specialty is not provided by the BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+            const result = await controller.updateUser('the-uuid', { specialty: 'Unknown' }, 'the-token');
+
+            verify(usersServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "bad request" http code when year is out of the specialty years range of the BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+
+            const result = await controller.updateUser('the-uuid', { year: 2 }, 'the-token');
+
+            verify(usersServiceMock.update(anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should not check the specialty when neither the specialty nor the year is updated', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+            when(usersServiceMock.update(anything())).thenCall((u: User) => Promise.resolve(u));
+
+            const result = await controller.updateUser('the-uuid', { firstname: 'John' }, 'the-token');
+
+            verify(bdeServiceMock.findByUUID(anything())).never();
+            expect(result.code).to.eq(HttpCode.Ok);
+        });
+
+        it('should only update given fields when user updates its own profile', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve(claims);
+            when(usersServiceMock.findByUUID('the-uuid')).thenResolve(user);
+            when(usersServiceMock.update(anything())).thenCall((u: User) => Promise.resolve(u));
+
+            const result = await controller.updateUser('the-uuid', { year: 4 }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(Object.keys(result.body)).to.not.contain('password');
+            expect(Object.keys(result.body)).to.not.contain('twoFactor');
+            expect(Object.keys(result.body)).to.not.contain('securityStamp');
+            const [updatedUser] = capture(usersServiceMock.update).last();
+            expect(updatedUser).to.deep.eq({ ... user, specialtyYear: 4 });
         });
 
     });
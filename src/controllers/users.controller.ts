@@ -1,16 +1,35 @@
-import { UsersService, UsersErrorType, AuthenticationService, MailingService, JWTClaims, LoggingService } from "../services";
-import { UnregisteredUser, User } from "../models";
+import { UsersService, UsersErrorType, AuthenticationService, MailingService, LoggingService, RefreshTokenErrorType, OneTimeTokenService, OneTimeTokenErrorType, LoginThrottler, BDEService } from "../services";
+import { UnregisteredUser, User, OneTimeToken, OneTimeTokenType, Permission, BDE } from "../models";
 import { ValidatorBuilder } from '../validation';
 import { v4 as uuid } from 'uuid';
+import { DateTime } from 'luxon';
 import * as httpCode from '../utils/http-code';
+import { authenticate } from './auth-guard';
+import { twoFactorStep, isTwoFactorEnforced } from './two-factor';
 import { hide } from '../utils/hide';
-import { canManageUser } from '../utils/permissions';
+import { generateOneTimeToken, hashOneTimeToken, generateRecoveryCode } from '../utils/one-time-token';
+import { generateTotpSecret, findTotpStep, totpUri } from '../utils/totp';
+import { PasswordPolicy, DEFAULT_PASSWORD_POLICY } from '../utils/password-policy';
+import { canManageUser, canManagePermissions, permissionsFromStrings } from '../utils/permissions';
 import { UserRequest } from "../models/user-request.model";
+import { BackendConfig } from '../config';
 
 export class UsersController {
 
     private static EMAIL_REGEX = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
 
+    /** Duration during which a password reset link can be used */
+    private static PASSWORD_RESET_LIFETIME = { hours: 1 };
+
+    /** Duration during which an email change code can be used */
+    private static EMAIL_CHANGE_LIFETIME = { hours: 1 };
+
+    /** Number of recovery codes generated when two-factor authentication is enabled */
+    private static RECOVERY_CODES_COUNT = 10;
+
+    /** Issuer shown by authenticator applications */
+    private static TWO_FACTOR_ISSUER = 'BDE';
+
     private static UNREGISTERED_USER_VALIDATOR = ValidatorBuilder
                                             .new<{ email: string, bde: string, firstname?: string, lastname?: string, member?: boolean }>()
                                             .requires("email").toBeString().matching(UsersController.EMAIL_REGEX)
@@ -34,7 +53,7 @@ export class UsersController {
                                             .requires("lastname").toBeString().withMinLength(2).withMaxLength(15)
                                             .requires("specialty").toBeString().withMinLength(1)
                                             .requires("year").toBeInteger().withMinValue(1).withMaxValue(5)
-                                            .requires("password").toBeString().withMinLength(10)
+                                            .requires("password").toBeString()
                                             .build();
 
     private static USER_CREDENTIALS_VALIDATOR = ValidatorBuilder
@@ -53,19 +72,174 @@ export class UsersController {
                                             .requires("year").toBeInteger().withMinValue(1).withMaxValue(5)
                                             .build()
 
+    private static REFRESH_TOKEN_VALIDATOR = ValidatorBuilder
+                                            .new<{ refreshToken: string }>()
+                                            .requires('refreshToken').toBeString().withMinLength(1)
+                                            .build();
+
+    private static PASSWORD_RESET_REQUEST_VALIDATOR = ValidatorBuilder
+                                            .new<{ email: string }>()
+                                            .requires('email').toBeString().matching(UsersController.EMAIL_REGEX)
+                                            .build();
+
+    private static MAGIC_LINK_REQUEST_VALIDATOR = ValidatorBuilder
+                                            .new<{ email: string }>()
+                                            .requires('email').toBeString().matching(UsersController.EMAIL_REGEX)
+                                            .build();
+
+    private static MAGIC_LINK_VALIDATOR = ValidatorBuilder
+                                            .new<{ token: string }>()
+                                            .requires('token').toBeString().withMinLength(1)
+                                            .build();
+
+    private static PASSWORD_RESET_VALIDATOR = ValidatorBuilder
+                                            .new<{ token: string, password: string }>()
+                                            .requires('token').toBeString().withMinLength(1)
+                                            .requires('password').toBeString()
+                                            .build();
+
     private static VALIDATE_ACCOUNT_REQUEST_VALIDATOR = ValidatorBuilder
                                             .new<{ email: string, accepted: boolean }>()
                                             .requires('email').toBeString().matching(UsersController.EMAIL_REGEX)
                                             .requires('accepted').toBeBoolean()
                                             .build();
 
+    private static USER_UPDATE_VALIDATOR = ValidatorBuilder
+                                            .new<{ firstname?: string, lastname?: string, specialty?: string, year?: number }>()
+                                            .optional("firstname").toBeString().withMinLength(2).withMaxLength(15)
+                                            .optional("lastname").toBeString().withMinLength(2).withMaxLength(15)
+                                            .optional("specialty").toBeString().withMinLength(1)
+                                            .optional("year").toBeInteger().withMinValue(1).withMaxValue(5)
+                                            .build();
+
+    private static EMAIL_CHANGE_REQUEST_VALIDATOR = ValidatorBuilder
+                                            .new<{ email: string }>()
+                                            .requires('email').toBeString().matching(UsersController.EMAIL_REGEX)
+                                            .build();
+
+    private static EMAIL_CHANGE_VALIDATOR = ValidatorBuilder
+                                            .new<{ token: string }>()
+                                            .requires('token').toBeString().withMinLength(1)
+                                            .build();
+
+    private static PASSWORD_CHANGE_VALIDATOR = ValidatorBuilder
+                                            .new<{ currentPassword: string, newPassword: string }>()
+                                            .requires('currentPassword').toBeString().withMinLength(1)
+                                            .requires('newPassword').toBeString()
+                                            .build();
+
+    private static TWO_FACTOR_VERIFY_VALIDATOR = ValidatorBuilder
+                                            .new<{ challengeToken: string, code?: string, recoveryCode?: string }>()
+                                            .requires('challengeToken').toBeString().withMinLength(1)
+                                            .optional('code').toBeString().withMinLength(1)
+                                            .optional('recoveryCode').toBeString().withMinLength(1)
+                                            .build();
+
+    private static TWO_FACTOR_ENROLL_VALIDATOR = ValidatorBuilder
+                                            .new<{ challengeToken?: string }>()
+                                            .optional('challengeToken').toBeString().withMinLength(1)
+                                            .build();
+
+    private static TWO_FACTOR_CONFIRM_VALIDATOR = ValidatorBuilder
+                                            .new<{ code: string, challengeToken?: string }>()
+                                            .requires('code').toBeString().withMinLength(1)
+                                            .optional('challengeToken').toBeString().withMinLength(1)
+                                            .build();
+
+    private static TWO_FACTOR_DISABLE_VALIDATOR = ValidatorBuilder
+                                            .new<{ code: string }>()
+                                            .requires('code').toBeString().withMinLength(1)
+                                            .build();
+
+    private static PERMISSIONS_UPDATE_VALIDATOR = ValidatorBuilder
+                                            .new<{ add?: string[], remove?: string[] }>()
+                                            .optional('add').toBeArray().withEachElement().toBeString().withMinLength(1)
+                                            .optional('remove').toBeArray().withEachElement().toBeString().withMinLength(1)
+                                            .build();
+
     constructor(
         private usersService: UsersService, 
         private authService: AuthenticationService,
         private mailingService: MailingService,
-        private loggingService: LoggingService
+        private loggingService: LoggingService,
+        private oneTimeTokenService: OneTimeTokenService,
+        private bdeService: BDEService,
+        private config: BackendConfig,
+        private passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+        private loginThrottler: LoginThrottler = new LoginThrottler()
     ) {}
 
+    /**
+     * Checks the given password against the password policy.
+     * 
+     * @returns a 'bad request' response listing all failed rules, or null if the password satisfies the policy
+     * 
+     * @param password The plain password to check
+     */
+    private checkPasswordPolicy(password: string): httpCode.Response | null {
+        const failures = this.passwordPolicy.check(password);
+        if (failures.length === 0) {
+            return null;
+        }
+        return httpCode.badRequest({ message: failures.join(' '), errors: failures });
+    }
+
+    /**
+     * Checks the given TOTP code of the given user. The time step of an accepted code is recorded
+     * so that the same code can't be accepted again.
+     * 
+     * @param user The user giving the code
+     * @param code The TOTP code
+     */
+    private async acceptTotp(user: User, code: string): Promise<boolean> {
+        const step = findTotpStep(user.twoFactor!.secret, code);
+        if (step === null) {
+            return false;
+        }
+        return this.usersService.consumeTotpStep(user.userUUID, step);
+    }
+
+    /**
+     * Consumes the given challenge token once the second factor has been checked, so that it can't be used to log in twice.
+     * 
+     * @returns false if the challenge token has already been consumed or has expired meanwhile
+     * 
+     * @param challengeToken The challenge token issued at login
+     */
+    private async consumeChallengeToken(challengeToken: string): Promise<boolean> {
+        try {
+            await this.authService.consumeChallengeToken(challengeToken);
+            return true;
+        } catch (e) {
+            if (e.type === OneTimeTokenErrorType.INTERNAL) {
+                throw e;
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Identifies the user managing its two-factor authentication, either from its access token or
+     * from the challenge token issued at login when enrollment is required.
+     * 
+     * @returns the UUID of the user, or null if no valid token is given
+     * 
+     * @param challengeToken The challenge token issued at login
+     * @param token The JWT to authenticate the user
+     */
+    private async identifyTwoFactorUser(challengeToken?: string, token?: string): Promise<string | null> {
+        try {
+            if (token) {
+                /* An API key does not identify an user */
+                const claims = await this.authService.verifyToken(token);
+                return claims.apiKey ? null : claims.uuid;
+            } else if (challengeToken) {
+                return await this.authService.verifyChallengeToken(challengeToken);
+            }
+        } catch (_) {}
+        return null;
+    }
+
     /**
      * Handles a user creation request. If the creation is a success,
      * the user must complete its registration later.
@@ -76,18 +250,11 @@ export class UsersController {
      */
     async create(body: object | null, userToken?: string): Promise<httpCode.Response> {
         
-        /* No token were given, we return an unauthorized error */
-        if (!userToken) {
-            return httpCode.unauthorized('You must be connected.');
-        }
-
-        /* Trying to authenticate user from the given token */
-        let claims: JWTClaims;
-        try {
-            claims = await this.authService.verifyToken(userToken);
-        } catch (_) {
-            return httpCode.unauthorized('The given token is invalid.');
+        const authentication = await authenticate(this.authService, userToken);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const claims = authentication.claims;
 
         /* Validating body request */
         let result = UsersController.UNREGISTERED_USER_VALIDATOR.validate(body);
@@ -138,6 +305,11 @@ export class UsersController {
             return httpCode.badRequest(result.error.message);
         }
 
+        const policyViolation = this.checkPasswordPolicy(result.value.password);
+        if (policyViolation) {
+            return policyViolation;
+        }
+
         let unregisteredUser;
         try {
             unregisteredUser = await this.usersService.findUnregisteredByUUID(result.value.uuid);
@@ -173,7 +345,7 @@ export class UsersController {
 
         try {
             user = await this.usersService.finishRegistration(user);
-            return httpCode.ok(hide(user, 'password'));
+            return httpCode.ok(hide(user, 'password', 'twoFactor', 'securityStamp'));
         } catch (e) {
             if (e.type === UsersErrorType.USER_NOT_EXISTS) {
                 return httpCode.badRequest('No user with the given UUID exists.');
@@ -187,30 +359,58 @@ export class UsersController {
 
     /**
      * Handles an authentication request. It tries to authenticate an user from its email and its password.
+     * Failed attempts are tracked per email and per IP address : too many failures lead to a temporary lockout.
+     * If a second factor is required, a challenge token is returned instead of the JWT (see `verifyTwoFactor` and `enrollTwoFactor`).
      * This method always resolves.
      * 
      * @param body The request body
+     * @param ip The IP address the request comes from
      */
-    async connectUser(body: object | null): Promise<httpCode.Response> {
+    async connectUser(body: object | null, ip?: string): Promise<httpCode.Response> {
         let result = UsersController.USER_CREDENTIALS_VALIDATOR.validate(body);
         if (!result.valid) {
             return httpCode.badRequest(result.error.message);
         }
 
+        const email = result.value.email.toLowerCase();
         let user: User;
         try {
-            user = await this.authService.authenticate(result.value.email.toLowerCase(), result.value.password);
+            const retryAfter = await this.loginThrottler.reserve(email, ip);
+            if (retryAfter > 0) {
+                return httpCode.tooManyRequests({ message: 'Too many failed login attempts. Retry later.', retryAfter });
+            }
+        } catch (e) {
+            this.loggingService.error('Unable to check login attempts.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
+        }
+
+        try {
+            user = await this.authService.authenticate(email, result.value.password);
         } catch (e) {
             if (e.type === UsersErrorType.INTERNAL) {
                 this.loggingService.error('Unable to authenticate user.', e);
                 return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
             }
+            try {
+                await this.loginThrottler.recordFailure(email, ip);
+            } catch (e) {
+                this.loggingService.error('Unable to record failed login attempt.', e);
+            }
             return httpCode.badRequest('Invalid credentials.');
         }
 
         try {
+            /* The second factor is requested before issuing tokens, failures are only forgotten once it is checked */
+            const step = await twoFactorStep(user, this.authService, this.bdeService);
+            if (step) {
+                const challengeToken = await this.authService.generateChallengeToken(user);
+                return httpCode.ok({ challengeToken, twoFactor: step });
+            }
+
+            await this.loginThrottler.recordSuccess(email);
             let token = await this.authService.generateToken(user);
-            return httpCode.ok({ token });
+            let refreshToken = await this.authService.generateRefreshToken(user);
+            return httpCode.ok({ token, refreshToken });
         } catch (e) {
             this.loggingService.error('Unable to authenticate user.', e);
             return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
@@ -218,135 +418,265 @@ export class UsersController {
     }
 
     /**
-     * Handles an unregistered user data fetching request for the user with the given UUID.
+     * Handles the second step of a login requiring two-factor authentication. The challenge token returned by `connectUser`
+     * must be given along with either a TOTP code or an unused recovery code.
+     * Failed attempts are tracked like failed password attempts.
      * This method always resolves.
      * 
-     * @param uuid The user UUID
+     * @param body The request body
+     * @param ip The IP address the request comes from
      */
-    async getUnregisteredUser(uuid: string): Promise<httpCode.Response> {
-        if (uuid.length === 0) {
-            return httpCode.badRequest('Unexpected empty user UUID.');
+    async verifyTwoFactor(body: object | null, ip?: string): Promise<httpCode.Response> {
+        let result = UsersController.TWO_FACTOR_VERIFY_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
         }
 
+        let uuid: string;
         try {
-            const user = await this.usersService.findUnregisteredByUUID(uuid);
-            return httpCode.ok(user);
+            uuid = await this.authService.verifyChallengeToken(result.value.challengeToken);
+        } catch (_) {
+            return httpCode.unauthorized('The given challenge token is invalid.');
+        }
+
+        let user: User;
+        try {
+            user = <User> await this.usersService.findByUUID(uuid);
         } catch (e) {
             if (e.type === UsersErrorType.USER_NOT_EXISTS) {
-                return httpCode.notFound('No user with this UUID exists.');
-            } else {
-                this.loggingService.error('Unable to get unregistered user by UUID.', e);
-                return httpCode.internalServerError('Unable to access this resources. Contact an adminstrator or retry later.');
+                return httpCode.unauthorized('The given challenge token is invalid.');
+            }
+            this.loggingService.error('Unable to verify second factor.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
+        }
+
+        const twoFactor = user.twoFactor;
+        if (!twoFactor || !twoFactor.enabled) {
+            return httpCode.badRequest('Two-factor authentication is not enabled for this user.');
+        }
+
+        try {
+            const retryAfter = await this.loginThrottler.reserve(user.email, ip);
+            if (retryAfter > 0) {
+                return httpCode.tooManyRequests({ message: 'Too many failed login attempts. Retry later.', retryAfter });
+            }
+
+            let valid = false;
+            if (result.value.code) {
+                valid = await this.acceptTotp(user, result.value.code);
+            } else if (result.value.recoveryCode) {
+                /* A recovery code can only be used once */
+                const codeHash = hashOneTimeToken(result.value.recoveryCode.trim().toLowerCase());
+                valid = await this.usersService.consumeRecoveryCode(user.userUUID, codeHash);
             }
+
+            if (!valid) {
+                await this.loginThrottler.recordFailure(user.email, ip);
+                return httpCode.badRequest('Invalid code.');
+            }
+
+            if (!await this.consumeChallengeToken(result.value.challengeToken)) {
+                return httpCode.unauthorized('The given challenge token is invalid.');
+            }
+
+            await this.loginThrottler.recordSuccess(user.email);
+            let token = await this.authService.generateToken(user);
+            let refreshToken = await this.authService.generateRefreshToken(user);
+            return httpCode.ok({ token, refreshToken });
+        } catch (e) {
+            this.loggingService.error('Unable to verify second factor.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
         }
     }
 
     /**
-     * Handles a request that aims to fetch all users of a BDE.
+     * Handles a request that aims to start the two-factor authentication enrollment of an user. A new TOTP secret is generated,
+     * it must be confirmed with a code (see `confirmTwoFactor`) before two-factor authentication is enabled.
+     * The user is identified by its JWT or, when enrollment is required at login, by the challenge token given in the body.
      * This method always resolves.
      * 
-     * @param bdeUUID The UUID of the BDE to get all users of
-     * @param token The JWT to authenticate user
+     * @param body The request body
+     * @param token The JWT to authenticate the user
      */
-    async listUsersForBDE(bdeUUID: string, token?: string): Promise<httpCode.Response> {
-        
-        if (!token) {
-            return httpCode.unauthorized('You must provide a token.');
+    async enrollTwoFactor(body: object | null, token?: string): Promise<httpCode.Response> {
+        let result = UsersController.TWO_FACTOR_ENROLL_VALIDATOR.validate(body || {});
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const uuid = await this.identifyTwoFactorUser(result.value.challengeToken, token);
+        if (!uuid) {
+            return httpCode.unauthorized('You must authenticate.');
         }
 
-        let jwtClaims: JWTClaims;
+        let user: User;
         try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.forbidden('The provided token is invalid.');
+            user = <User> await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.unauthorized('You must authenticate.');
+            }
+            this.loggingService.error('Unable to enroll two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to enable two-factor authentication. Contact an administrator or retry later.');
         }
 
-        if (!canManageUser(jwtClaims, bdeUUID)) {
-            return httpCode.forbidden('You do not have permission to fetch users for this BDE.');
+        /* Replacing an enabled secret would allow to bypass the second factor */
+        if (user.twoFactor && user.twoFactor.enabled) {
+            return httpCode.badRequest('Two-factor authentication is already enabled.');
         }
 
-        let users: (User | UnregisteredUser)[];
+        const secret = generateTotpSecret();
         try {
-            users = await this.usersService.findAll(bdeUUID);
+            await this.usersService.updateTwoFactor(user.userUUID, { secret, enabled: false, recoveryCodes: [] });
+            return httpCode.ok({ secret, uri: totpUri(secret, user.email, UsersController.TWO_FACTOR_ISSUER) });
         } catch (e) {
-            if (e.type === UsersErrorType.BDE_NOT_EXISTS) {
-                return httpCode.notFound('This BDE does not exists');
+            this.loggingService.error('Unable to enroll two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to enable two-factor authentication. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to confirm the two-factor authentication enrollment of an user with a code generated
+     * from the new secret. Once confirmed, two-factor authentication is enabled and recovery codes are returned.
+     * If the user is identified by a challenge token, the login is completed and tokens are returned too.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     */
+    async confirmTwoFactor(body: object | null, token?: string): Promise<httpCode.Response> {
+        let result = UsersController.TWO_FACTOR_CONFIRM_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const uuid = await this.identifyTwoFactorUser(result.value.challengeToken, token);
+        if (!uuid) {
+            return httpCode.unauthorized('You must authenticate.');
+        }
+
+        let user: User;
+        try {
+            user = <User> await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.unauthorized('You must authenticate.');
             }
-            this.loggingService.error(e);
-            return httpCode.internalServerError('Contact an adminstrator or retry later.');
+            this.loggingService.error('Unable to confirm two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to enable two-factor authentication. Contact an administrator or retry later.');
         }
 
-        const mappedUsers = users.map(user => hide({ ... user, permissions: user.permissions.map(p => p.name) }, 'password'));
+        const twoFactor = user.twoFactor;
+        if (!twoFactor || twoFactor.enabled) {
+            return httpCode.badRequest('No two-factor authentication enrollment is pending.');
+        }
 
-        return httpCode.ok(mappedUsers);
+        const step = findTotpStep(twoFactor.secret, result.value.code);
+        if (step === null) {
+            return httpCode.badRequest('Invalid code.');
+        }
+
+        const recoveryCodes: string[] = [];
+        for (let i = 0; i < UsersController.RECOVERY_CODES_COUNT; i++) {
+            recoveryCodes.push(generateRecoveryCode());
+        }
+
+        try {
+            if (!token && !await this.consumeChallengeToken(result.value.challengeToken!)) {
+                return httpCode.unauthorized('You must authenticate.');
+            }
+
+            await this.usersService.updateTwoFactor(user.userUUID, {
+                secret: twoFactor.secret,
+                enabled: true,
+                recoveryCodes: recoveryCodes.map((code) => hashOneTimeToken(code)),
+                lastUsedStep: step,
+            });
+
+            if (token) {
+                return httpCode.ok({ recoveryCodes });
+            }
+            await this.loginThrottler.recordSuccess(user.email);
+            const accessToken = await this.authService.generateToken(user);
+            const refreshToken = await this.authService.generateRefreshToken(user);
+            return httpCode.ok({ recoveryCodes, token: accessToken, refreshToken });
+        } catch (e) {
+            this.loggingService.error('Unable to confirm two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to enable two-factor authentication. Contact an administrator or retry later.');
+        }
     }
 
     /**
-     * Handles a request that aims to fetch an user from its UUID.
+     * Handles a request that aims to disable two-factor authentication of the authenticated user. A valid code is required.
+     * Two-factor authentication can't be disabled if the BDE of the user enforces it.
      * This method always resolves.
      * 
-     * @param uuid The user UUID to fetch
+     * @param body The request body
      * @param token The JWT to authenticate the user
      */
-    async getUser(uuid: string, token?: string): Promise<httpCode.Response> {
+    async disableTwoFactor(body: object | null, token?: string): Promise<httpCode.Response> {
 
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
+        const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.forbidden('The given token is invalid.');
+        let result = UsersController.TWO_FACTOR_DISABLE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
         }
 
-        let user: User | UnregisteredUser;
+        let user: User;
+        let enforced: boolean;
         try {
-            user = await this.usersService.findByUUID(uuid);
+            user = <User> await this.usersService.findByUUID(jwtClaims.uuid);
+            enforced = await isTwoFactorEnforced(user, this.authService, this.bdeService);
         } catch (e) {
             if (e.type === UsersErrorType.USER_NOT_EXISTS) {
                 return httpCode.notFound('No user with the given UUID exists.');
             }
-            this.loggingService.error(e);
-            return httpCode.internalServerError('Unable to fetch user. Contact an adminstrator or retry later.');
+            this.loggingService.error('Unable to disable two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to disable two-factor authentication. Contact an administrator or retry later.');
         }
 
-        if (canManageUser(jwtClaims, user.bdeUUID) || jwtClaims.uuid === user.userUUID) {
-            const hidedUser = hide(user, 'password');
-            return httpCode.ok({
-                ... hidedUser,
-                permissions: hidedUser.permissions.map(p => p.name),
-            });
+        if (!user.twoFactor || !user.twoFactor.enabled) {
+            return httpCode.badRequest('Two-factor authentication is not enabled.');
         }
 
-        return httpCode.ok(hide(user, 'password', 'email', 'permissions', 'member'));
-    }
+        if (enforced) {
+            return httpCode.forbidden('Two-factor authentication is required by your BDE.');
+        }
 
+        try {
+            if (!await this.acceptTotp(user, result.value.code)) {
+                return httpCode.badRequest('Invalid code.');
+            }
+
+            await this.usersService.updateTwoFactor(user.userUUID, null);
+            return httpCode.noContent();
+        } catch (e) {
+            this.loggingService.error('Unable to disable two-factor authentication.', e);
+            return httpCode.internalServerError('Unable to disable two-factor authentication. Contact an administrator or retry later.');
+        }
+    }
 
     /**
-     * Handles a request that aims to delete an user from its UUID.
+     * Handles a request that aims to unlock the account of the user with the given UUID after too many failed login attempts.
+     * This requires the permission to manage users of the user BDE.
      * This method always resolves.
      * 
-     * @param uuid The user UUID to delete
+     * @param uuid The UUID of the user to unlock
      * @param token The JWT to authenticate the user
      */
-    async deleteUser(uuid: string, token?: string): Promise<httpCode.Response> {
-
-        /* No token were given, we return unauthorized response code */
-        if (!token) {
-            return httpCode.unauthorized('You must authenticate.');
-        }
+    async unlockUser(uuid: string, token?: string): Promise<httpCode.Response> {
 
-        /* We verify token validity */
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.forbidden('The given token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
-        /* We fetch user to be deleted */
         let user: User | UnregisteredUser;
         try {
             user = await this.usersService.findByUUID(uuid);
@@ -355,71 +685,870 @@ export class UsersController {
                 return httpCode.notFound('No user with the given UUID exists.');
             }
             this.loggingService.error(e);
-            return httpCode.internalServerError('Unable to delete user. Contact an adminstrator or retry later.');
+            return httpCode.internalServerError('Unable to unlock user. Contact an adminstrator or retry later.');
         }
 
-        /* We check the permission */
         if (!canManageUser(jwtClaims, user.bdeUUID)) {
-            return httpCode.forbidden('You do not have the permission to delete this user.');
+            return httpCode.forbidden('You do not have the permission to unlock this user.');
         }
 
-        /* We delete the user */
         try {
-            await this.usersService.delete(user.userUUID);
+            await this.loginThrottler.unlock(user.email);
             return httpCode.noContent();
         } catch (e) {
-            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
-                return httpCode.notFound('No user with the given UUID exists.');
-            }
-            return httpCode.internalServerError('Unable to delete user. Contact an adminstrator or retry later.');
+            this.loggingService.error('Unable to unlock user.', e);
+            return httpCode.internalServerError('Unable to unlock user. Contact an adminstrator or retry later.');
         }
     }
 
-    async register(body: object | null): Promise<httpCode.Response> {
-        /* Validating body request */
-        let result = UsersController.REGISTER_VALIDATOR.validate(body);
+    /**
+     * Handles a request that aims to exchange a refresh token for a new access token and a new refresh token.
+     * The given refresh token can't be used anymore once exchanged.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     */
+    async refreshToken(body: object | null): Promise<httpCode.Response> {
+        let result = UsersController.REFRESH_TOKEN_VALIDATOR.validate(body);
         if (!result.valid) {
             return httpCode.badRequest(result.error.message);
         }
 
-        const userRequest: UserRequest = {
-            email: result.value.email,
-            firstname: result.value.firstname,
-            lastname: result.value.lastname,
-            bdeUUID: result.value.bde,
-            specialtyName: result.value.specialty,
-            specialtyYear: result.value.year,
-        };
-
         try {
-            await this.usersService.register(userRequest);
-            return httpCode.created(userRequest);
+            const tokens = await this.authService.refreshTokens(result.value.refreshToken);
+            return httpCode.ok(tokens);
         } catch (e) {
-            if (e.type === UsersErrorType.USER_ALREADY_EXISTS) {
-                return httpCode.badRequest('The given email already exist');
-            }
-            if (e.type === UsersErrorType.BDE_NOT_EXISTS) {
-                return httpCode.badRequest('The given BDE UUID do not exist');
-            }
-            if (e.type === UsersErrorType.INVALID_SPECIALTY) {
-                return httpCode.badRequest('The given specialty do not exist');
+            if (e.type === RefreshTokenErrorType.INTERNAL) {
+                this.loggingService.error('Unable to refresh token.', e);
+                return httpCode.internalServerError('Unable to refresh token. Contact an administrator or retry later.');
             }
-            return httpCode.internalServerError('Unable to process the given user request');
+            return httpCode.unauthorized('The given refresh token is invalid.');
         }
     }
 
-    async listAccountsRequestForBde(bdeUUID: string, token?: string): Promise<httpCode.Response> {
-        if (!token) {
-            return httpCode.unauthorized('You must provide a token.');
-        }
-
-        let jwtClaims: JWTClaims;
+    /**
+     * Handles a request that aims to revoke a refresh token (typically when the user logs out).
+     * If an access token is also given, it gets revoked too.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The access token to revoke along with the refresh token
+     */
+    async revokeRefreshToken(body: object | null, token?: string): Promise<httpCode.Response> {
+        let result = UsersController.REFRESH_TOKEN_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
         try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.forbidden('The provided token is invalid.');
+            await this.authService.revokeRefreshToken(result.value.refreshToken);
+        } catch (e) {
+            if (e.type === RefreshTokenErrorType.INTERNAL) {
+                this.loggingService.error('Unable to revoke refresh token.', e);
+                return httpCode.internalServerError('Unable to revoke token. Contact an administrator or retry later.');
+            }
+            return httpCode.unauthorized('The given refresh token is invalid.');
+        }
+
+        if (token) {
+            try {
+                await this.authService.revokeToken(token);
+            } catch (_) {} // An invalid access token is already unusable, there is nothing more to revoke
+        }
+
+        return httpCode.noContent();
+    }
+
+    /**
+     * Handles a request that aims to revoke all sessions (access and refresh tokens) of the user with the given UUID.
+     * An user can revoke its own sessions. Revoking sessions of an other user requires the permission to manage users of its BDE.
+     * This method always resolves.
+     * 
+     * @param uuid The UUID of the user to revoke sessions of
+     * @param token The JWT to authenticate the user
+     */
+    async revokeUserSessions(uuid: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        if (jwtClaims.uuid !== uuid) {
+            let user: User | UnregisteredUser;
+            try {
+                user = await this.usersService.findByUUID(uuid);
+            } catch (e) {
+                if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                    return httpCode.notFound('No user with the given UUID exists.');
+                }
+                this.loggingService.error(e);
+                return httpCode.internalServerError('Unable to revoke sessions. Contact an adminstrator or retry later.');
+            }
+
+            if (!canManageUser(jwtClaims, user.bdeUUID)) {
+                return httpCode.forbidden('You do not have the permission to revoke sessions of this user.');
+            }
+        }
+
+        try {
+            await this.authService.revokeUserSessions(uuid);
+            return httpCode.noContent();
+        } catch (e) {
+            this.loggingService.error('Unable to revoke user sessions.', e);
+            return httpCode.internalServerError('Unable to revoke sessions. Contact an adminstrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to reset the password of an user. If an user with the given email exists,
+     * a mail containing a single-use link is sent to this user.
+     * To avoid disclosing which emails are registered, the response does not depend on the user existence.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     */
+    async requestPasswordReset(body: object | null): Promise<httpCode.Response> {
+        let result = UsersController.PASSWORD_RESET_REQUEST_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let user: User;
+        try {
+            user = await this.usersService.findByEmail(result.value.email.toLowerCase());
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.ok('If an account with this email exists, a reset link has been sent.');
+            }
+            this.loggingService.error('Unable to request password reset.', e);
+            return httpCode.internalServerError('Unable to reset password. Contact an administrator or retry later.');
+        }
+
+        const { token, hash } = generateOneTimeToken();
+        try {
+            await this.oneTimeTokenService.create({
+                tokenHash: hash,
+                type: OneTimeTokenType.PASSWORD_RESET,
+                userUUID: user.userUUID,
+                expiresAt: DateTime.local().plus(UsersController.PASSWORD_RESET_LIFETIME),
+            });
+            await this.mailingService.sendPasswordResetMail(user, token);
+        } catch (e) {
+            this.loggingService.error('Unable to request password reset.', e);
+            return httpCode.internalServerError('Unable to reset password. Contact an administrator or retry later.');
+        }
+
+        return httpCode.ok('If an account with this email exists, a reset link has been sent.');
+    }
+
+    /**
+     * Handles a request that aims to set a new password using a password reset token.
+     * Once the password changed, all sessions of the user are revoked.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     */
+    async resetPassword(body: object | null): Promise<httpCode.Response> {
+        let result = UsersController.PASSWORD_RESET_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const policyViolation = this.checkPasswordPolicy(result.value.password);
+        if (policyViolation) {
+            return policyViolation;
+        }
+
+        let resetToken: OneTimeToken;
+        try {
+            resetToken = await this.oneTimeTokenService.consume(hashOneTimeToken(result.value.token), OneTimeTokenType.PASSWORD_RESET);
+        } catch (e) {
+            if (e.type === OneTimeTokenErrorType.TOKEN_NOT_EXISTS) {
+                return httpCode.badRequest('The given reset token is invalid.');
+            }
+            this.loggingService.error('Unable to reset password.', e);
+            return httpCode.internalServerError('Unable to reset password. Contact an administrator or retry later.');
+        }
+
+        if (resetToken.expiresAt < DateTime.local()) {
+            return httpCode.badRequest('The given reset token has expired.');
+        }
+
+        try {
+            const hashedPassword = await this.authService.hashPassword(result.value.password);
+            await this.usersService.updatePassword(resetToken.userUUID, hashedPassword);
+            await this.authService.revokeUserSessions(resetToken.userUUID);
+            return httpCode.noContent();
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.badRequest('The given reset token is invalid.');
+            }
+            this.loggingService.error('Unable to reset password.', e);
+            return httpCode.internalServerError('Unable to reset password. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to log in without password : if a registered user with the given email exists,
+     * a mail containing a single-use login link is sent to this user (see `connectWithMagicLink`). Links previously sent
+     * to this user can't be used anymore.
+     * Each request is counted as a login attempt for the email until a link is used, so that requests are throttled.
+     * To avoid disclosing which emails are registered, the response does not depend on the user existence.
+     * This login mode must be enabled in the configuration.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param ip The IP address the request comes from
+     */
+    async requestMagicLink(body: object | null, ip?: string): Promise<httpCode.Response> {
+        if (!this.config.magicLinkLogin) {
+            return httpCode.forbidden('Login links are disabled.');
+        }
+
+        let result = UsersController.MAGIC_LINK_REQUEST_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const email = result.value.email.toLowerCase();
+        let user: User;
+        try {
+            /* A locked account can't be unlocked by requesting a link */
+            const retryAfter = await this.loginThrottler.reserve(email, ip);
+            if (retryAfter > 0) {
+                return httpCode.tooManyRequests({ message: 'Too many login attempts. Retry later.', retryAfter });
+            }
+            user = await this.usersService.findByEmail(email);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.ok('If an account with this email exists, a login link has been sent.');
+            }
+            this.loggingService.error('Unable to request login link.', e);
+            return httpCode.internalServerError('Unable to send a login link. Contact an administrator or retry later.');
+        }
+
+        const { token, hash } = generateOneTimeToken();
+        try {
+            await this.oneTimeTokenService.deleteForUser(user.userUUID, OneTimeTokenType.MAGIC_LINK);
+            await this.oneTimeTokenService.create({
+                tokenHash: hash,
+                type: OneTimeTokenType.MAGIC_LINK,
+                userUUID: user.userUUID,
+                expiresAt: DateTime.local().plus({ seconds: this.config.magicLinkLifetime }),
+            });
+            await this.mailingService.sendMagicLinkMail(user, token);
+        } catch (e) {
+            this.loggingService.error('Unable to request login link.', e);
+            return httpCode.internalServerError('Unable to send a login link. Contact an administrator or retry later.');
+        }
+
+        return httpCode.ok('If an account with this email exists, a login link has been sent.');
+    }
+
+    /**
+     * Handles an authentication request using the token of a login link. As for `connectUser`, locked accounts
+     * are rejected and a challenge token is returned instead of the JWT if a second factor is required.
+     * This login mode must be enabled in the configuration.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param ip The IP address the request comes from
+     */
+    async connectWithMagicLink(body: object | null, ip?: string): Promise<httpCode.Response> {
+        if (!this.config.magicLinkLogin) {
+            return httpCode.forbidden('Login links are disabled.');
+        }
+
+        let result = UsersController.MAGIC_LINK_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let loginToken: OneTimeToken;
+        try {
+            loginToken = await this.oneTimeTokenService.consume(hashOneTimeToken(result.value.token), OneTimeTokenType.MAGIC_LINK);
+        } catch (e) {
+            if (e.type === OneTimeTokenErrorType.TOKEN_NOT_EXISTS) {
+                return httpCode.badRequest('The given login link is invalid.');
+            }
+            this.loggingService.error('Unable to authenticate user.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
         }
 
+        if (loginToken.expiresAt < DateTime.local()) {
+            return httpCode.badRequest('The given login link has expired.');
+        }
+
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(loginToken.userUUID);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.badRequest('The given login link is invalid.');
+            }
+            this.loggingService.error('Unable to authenticate user.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
+        }
+
+        if ((<User>user).password === undefined) {
+            return httpCode.badRequest('The given login link is invalid.');
+        }
+        const registeredUser = <User>user;
+
+        try {
+            const retryAfter = await this.loginThrottler.retryAfter(registeredUser.email, ip);
+            if (retryAfter > 0) {
+                return httpCode.tooManyRequests({ message: 'Too many failed login attempts. Retry later.', retryAfter });
+            }
+
+            const step = await twoFactorStep(registeredUser, this.authService, this.bdeService);
+            if (step) {
+                const challengeToken = await this.authService.generateChallengeToken(registeredUser);
+                return httpCode.ok({ challengeToken, twoFactor: step });
+            }
+
+            await this.loginThrottler.recordSuccess(registeredUser.email);
+            let token = await this.authService.generateToken(registeredUser);
+            let refreshToken = await this.authService.generateRefreshToken(registeredUser);
+            return httpCode.ok({ token, refreshToken });
+        } catch (e) {
+            this.loggingService.error('Unable to authenticate user.', e);
+            return httpCode.internalServerError('Unable to authenticate an user. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to grant and/or revoke permissions of the user with the given UUID.
+     * Only modifiable permissions can be granted or revoked, and the requesting user must be allowed
+     * to manage permissions of the targeted user.
+     * This method always resolves.
+     * 
+     * @param uuid The UUID of the user to update permissions of
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     */
+    async updatePermissions(uuid: string, body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let result = UsersController.PERMISSIONS_UPDATE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const added = Array.from(new Set(result.value.add || []));
+        const removed = Array.from(new Set(result.value.remove || []));
+        const permissionsToAdd = permissionsFromStrings(added);
+        const permissionsToRemove = permissionsFromStrings(removed);
+        if (permissionsToAdd.length !== added.length || permissionsToRemove.length !== removed.length) {
+            return httpCode.badRequest('Unknown permission given.');
+        }
+
+        if (permissionsToAdd.concat(permissionsToRemove).some((p) => !p.modifiable)) {
+            return httpCode.forbidden('Some of the given permissions can\'t be granted or revoked.');
+        }
+
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update permissions. Contact an adminstrator or retry later.');
+        }
+
+        if (!canManagePermissions(jwtClaims, user)) {
+            return httpCode.forbidden('You do not have the permission to manage permissions of this user.');
+        }
+
+        /* Permissions are compared by name as the name is the only serialized property */
+        const permissions: Permission[] = user.permissions.filter((p) => !removed.includes(p.name));
+        for (let permission of permissionsToAdd) {
+            if (!permissions.some((p) => p.name === permission.name)) {
+                permissions.push(permission);
+            }
+        }
+
+        try {
+            await this.usersService.updatePermissions(user.userUUID, permissions);
+            await this.authService.renewSecurityStamp(user.userUUID);
+            return httpCode.ok({ permissions: permissions.map(p => p.name) });
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update permissions. Contact an adminstrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to change the password of the authenticated user.
+     * The current password must be given, failed attempts are tracked like failed login attempts. Once the password
+     * changed, all previously issued tokens of the user are revoked and a new pair of tokens is returned.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     * @param ip The IP address the request comes from
+     */
+    async changePassword(body: object | null, token?: string, ip?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let result = UsersController.PASSWORD_CHANGE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const policyViolation = this.checkPasswordPolicy(result.value.newPassword);
+        if (policyViolation) {
+            return policyViolation;
+        }
+
+        let user: User;
+        try {
+            user = <User> await this.usersService.findByUUID(jwtClaims.uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error('Unable to change password.', e);
+            return httpCode.internalServerError('Unable to change password. Contact an administrator or retry later.');
+        }
+
+        try {
+            const retryAfter = await this.loginThrottler.reserve(user.email, ip);
+            if (retryAfter > 0) {
+                return httpCode.tooManyRequests({ message: 'Too many failed attempts. Retry later.', retryAfter });
+            }
+            if (!await this.authService.checkPassword(user, result.value.currentPassword)) {
+                await this.loginThrottler.recordFailure(user.email, ip);
+                return httpCode.badRequest('Invalid current password.');
+            }
+            await this.loginThrottler.recordSuccess(user.email);
+        } catch (e) {
+            this.loggingService.error('Unable to change password.', e);
+            return httpCode.internalServerError('Unable to change password. Contact an administrator or retry later.');
+        }
+
+        try {
+            const hashedPassword = await this.authService.hashPassword(result.value.newPassword);
+            await this.usersService.updatePassword(user.userUUID, hashedPassword);
+            await this.authService.revokeUserSessions(user.userUUID);
+
+            const updatedUser: User = { ... user, password: hashedPassword };
+            const newToken = await this.authService.generateToken(updatedUser);
+            const refreshToken = await this.authService.generateRefreshToken(updatedUser);
+            return httpCode.ok({ token: newToken, refreshToken });
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error('Unable to change password.', e);
+            return httpCode.internalServerError('Unable to change password. Contact an administrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to change the email of the authenticated user.
+     * A mail containing a single-use code is sent to the new address, the email is only changed once this code is confirmed.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     */
+    async requestEmailChange(body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let result = UsersController.EMAIL_CHANGE_REQUEST_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let user: User;
+        try {
+            user = <User> await this.usersService.findByUUID(jwtClaims.uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error('Unable to request email change.', e);
+            return httpCode.internalServerError('Unable to change email. Contact an administrator or retry later.');
+        }
+
+        const newEmail = result.value.email.toLowerCase();
+        if (newEmail === user.email) {
+            return httpCode.badRequest('The given email is already your email.');
+        }
+
+        const { token: code, hash } = generateOneTimeToken();
+        try {
+            await this.oneTimeTokenService.create({
+                tokenHash: hash,
+                type: OneTimeTokenType.EMAIL_CHANGE,
+                userUUID: user.userUUID,
+                expiresAt: DateTime.local().plus(UsersController.EMAIL_CHANGE_LIFETIME),
+                data: newEmail,
+            });
+            await this.mailingService.sendEmailChangeMail(user, newEmail, code);
+        } catch (e) {
+            this.loggingService.error('Unable to request email change.', e);
+            return httpCode.internalServerError('Unable to change email. Contact an administrator or retry later.');
+        }
+
+        return httpCode.ok('A confirmation code has been sent to the new email address.');
+    }
+
+    /**
+     * Handles a request that aims to confirm the email change of the authenticated user using the code
+     * sent to its new address. Once the email changed, a notice is sent to the previous address.
+     * This method always resolves.
+     * 
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     */
+    async confirmEmailChange(body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let result = UsersController.EMAIL_CHANGE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        /* Only a code issued for the authenticated user is consumed, so that an other user can't destroy it */
+        let changeToken: OneTimeToken;
+        try {
+            changeToken = await this.oneTimeTokenService.consume(hashOneTimeToken(result.value.token), OneTimeTokenType.EMAIL_CHANGE, jwtClaims.uuid);
+        } catch (e) {
+            if (e.type === OneTimeTokenErrorType.TOKEN_NOT_EXISTS) {
+                return httpCode.badRequest('The given code is invalid.');
+            }
+            this.loggingService.error('Unable to confirm email change.', e);
+            return httpCode.internalServerError('Unable to change email. Contact an administrator or retry later.');
+        }
+
+        if (changeToken.userUUID !== jwtClaims.uuid || !changeToken.data) {
+            return httpCode.badRequest('The given code is invalid.');
+        }
+
+        if (changeToken.expiresAt < DateTime.local()) {
+            return httpCode.badRequest('The given code has expired.');
+        }
+
+        const newEmail = changeToken.data;
+        let user: User;
+        try {
+            user = <User> await this.usersService.findByUUID(changeToken.userUUID);
+            await this.usersService.updateEmail(user.userUUID, newEmail);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_ALREADY_EXISTS) {
+                return httpCode.badRequest('Email already used.');
+            } else if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.badRequest('The given code is invalid.');
+            }
+            this.loggingService.error('Unable to confirm email change.', e);
+            return httpCode.internalServerError('Unable to change email. Contact an administrator or retry later.');
+        }
+
+        try {
+            await this.mailingService.sendEmailChangedNoticeMail(user, newEmail);
+        } catch (e) {
+            this.loggingService.error('Unable to send email change notice.', e);
+        }
+
+        return httpCode.ok({ email: newEmail });
+    }
+
+    /**
+     * Handles an unregistered user data fetching request for the user with the given UUID.
+     * This method always resolves.
+     * 
+     * @param uuid The user UUID
+     */
+    async getUnregisteredUser(uuid: string): Promise<httpCode.Response> {
+        if (uuid.length === 0) {
+            return httpCode.badRequest('Unexpected empty user UUID.');
+        }
+
+        try {
+            const user = await this.usersService.findUnregisteredByUUID(uuid);
+            return httpCode.ok(user);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with this UUID exists.');
+            } else {
+                this.loggingService.error('Unable to get unregistered user by UUID.', e);
+                return httpCode.internalServerError('Unable to access this resources. Contact an adminstrator or retry later.');
+            }
+        }
+    }
+
+    /**
+     * Handles a request that aims to fetch all users of a BDE.
+     * This method always resolves.
+     * 
+     * @param bdeUUID The UUID of the BDE to get all users of
+     * @param token The JWT to authenticate user
+     */
+    async listUsersForBDE(bdeUUID: string, token?: string): Promise<httpCode.Response> {
+        
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        if (!canManageUser(jwtClaims, bdeUUID)) {
+            return httpCode.forbidden('You do not have permission to fetch users for this BDE.');
+        }
+
+        let users: (User | UnregisteredUser)[];
+        try {
+            users = await this.usersService.findAll(bdeUUID);
+        } catch (e) {
+            if (e.type === UsersErrorType.BDE_NOT_EXISTS) {
+                return httpCode.notFound('This BDE does not exists');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Contact an adminstrator or retry later.');
+        }
+
+        const mappedUsers = users.map(user => hide({ ... user, permissions: user.permissions.map(p => p.name) }, 'password', 'twoFactor', 'securityStamp'));
+
+        return httpCode.ok(mappedUsers);
+    }
+
+    /**
+     * Handles a request that aims to fetch an user from its UUID.
+     * This method always resolves.
+     * 
+     * @param uuid The user UUID to fetch
+     * @param token The JWT to authenticate the user
+     */
+    async getUser(uuid: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to fetch user. Contact an adminstrator or retry later.');
+        }
+
+        if (canManageUser(jwtClaims, user.bdeUUID) || jwtClaims.uuid === user.userUUID) {
+            const hidedUser = hide(user, 'password', 'twoFactor', 'securityStamp');
+            return httpCode.ok({
+                ... hidedUser,
+                permissions: hidedUser.permissions.map(p => p.name),
+            });
+        }
+
+        return httpCode.ok(hide(user, 'password', 'twoFactor', 'securityStamp', 'email', 'permissions', 'member'));
+    }
+
+
+    /**
+     * Handles a request that aims to update the profile (firstname, lastname, specialty and year) of the user with the given UUID.
+     * Only the given fields are updated. An user can update its own profile. Updating the profile of an other user
+     * requires the permission to manage users of its BDE.
+     * This method always resolves.
+     * 
+     * @param uuid The UUID of the user to update
+     * @param body The request body
+     * @param token The JWT to authenticate the user
+     */
+    async updateUser(uuid: string, body: object | null, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        let result = UsersController.USER_UPDATE_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update user. Contact an adminstrator or retry later.');
+        }
+
+        if (jwtClaims.uuid !== user.userUUID && !canManageUser(jwtClaims, user.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to update this user.');
+        }
+
+        /* Only registered users have a profile to update */
+        const registeredUser = <User>user;
+        if (registeredUser.password === undefined) {
+            return httpCode.badRequest('This user has not finished its registration yet.');
+        }
+
+        let updatedUser: User = {
+            ... registeredUser,
+            firstname: result.value.firstname || registeredUser.firstname,
+            lastname: result.value.lastname || registeredUser.lastname,
+            specialtyName: result.value.specialty || registeredUser.specialtyName,
+            specialtyYear: result.value.year || registeredUser.specialtyYear,
+        };
+
+        /* The new specialty or year must be provided by the BDE of the user */
+        if (result.value.specialty || result.value.year) {
+            let bde: BDE;
+            try {
+                bde = await this.bdeService.findByUUID(registeredUser.bdeUUID);
+            } catch (e) {
+                this.loggingService.error(e);
+                return httpCode.internalServerError('Unable to update user. Contact an adminstrator or retry later.');
+            }
+
+            const specialty = bde.specialties.find((s) => s.name === updatedUser.specialtyName);
+            if (!specialty || updatedUser.specialtyYear < specialty.minYear || updatedUser.specialtyYear > specialty.maxYear) {
+                return httpCode.badRequest('The specified specialty or year is not provided by the BDE.');
+            }
+        }
+
+        try {
+            updatedUser = await this.usersService.update(updatedUser);
+            const hidedUser = hide(updatedUser, 'password', 'twoFactor', 'securityStamp');
+            return httpCode.ok({
+                ... hidedUser,
+                permissions: hidedUser.permissions.map(p => p.name),
+            });
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            } else if (e.type === UsersErrorType.INVALID_SPECIALTY) {
+                return httpCode.badRequest('The specified specialty or year is not provided by the BDE.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to update user. Contact an adminstrator or retry later.');
+        }
+    }
+
+    /**
+     * Handles a request that aims to delete an user from its UUID.
+     * This method always resolves.
+     * 
+     * @param uuid The user UUID to delete
+     * @param token The JWT to authenticate the user
+     */
+    async deleteUser(uuid: string, token?: string): Promise<httpCode.Response> {
+
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
+        /* We fetch user to be deleted */
+        let user: User | UnregisteredUser;
+        try {
+            user = await this.usersService.findByUUID(uuid);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            this.loggingService.error(e);
+            return httpCode.internalServerError('Unable to delete user. Contact an adminstrator or retry later.');
+        }
+
+        /* We check the permission */
+        if (!canManageUser(jwtClaims, user.bdeUUID)) {
+            return httpCode.forbidden('You do not have the permission to delete this user.');
+        }
+
+        /* We delete the user */
+        try {
+            await this.usersService.delete(user.userUUID);
+            return httpCode.noContent();
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_NOT_EXISTS) {
+                return httpCode.notFound('No user with the given UUID exists.');
+            }
+            return httpCode.internalServerError('Unable to delete user. Contact an adminstrator or retry later.');
+        }
+    }
+
+    async register(body: object | null): Promise<httpCode.Response> {
+        /* Validating body request */
+        let result = UsersController.REGISTER_VALIDATOR.validate(body);
+        if (!result.valid) {
+            return httpCode.badRequest(result.error.message);
+        }
+
+        const userRequest: UserRequest = {
+            email: result.value.email,
+            firstname: result.value.firstname,
+            lastname: result.value.lastname,
+            bdeUUID: result.value.bde,
+            specialtyName: result.value.specialty,
+            specialtyYear: result.value.year,
+        };
+
+        try {
+            await this.usersService.register(userRequest);
+            return httpCode.created(userRequest);
+        } catch (e) {
+            if (e.type === UsersErrorType.USER_ALREADY_EXISTS) {
+                return httpCode.badRequest('The given email already exist');
+            }
+            if (e.type === UsersErrorType.BDE_NOT_EXISTS) {
+                return httpCode.badRequest('The given BDE UUID do not exist');
+            }
+            if (e.type === UsersErrorType.INVALID_SPECIALTY) {
+                return httpCode.badRequest('The given specialty do not exist');
+            }
+            return httpCode.internalServerError('Unable to process the given user request');
+        }
+    }
+
+    async listAccountsRequestForBde(bdeUUID: string, token?: string): Promise<httpCode.Response> {
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
+        }
+        const jwtClaims = authentication.claims;
+
         if (!canManageUser(jwtClaims, bdeUUID)) {
             return httpCode.forbidden('You do not have permission to fetch account requests for this BDE.');
         }
@@ -438,16 +1567,11 @@ export class UsersController {
     }
 
     async validateAccount(bdeUUID: string, body: object | null, token?: string): Promise<httpCode.Response> {
-        if (!token) {
-            return httpCode.unauthorized('You must provide a token.');
-        }
-
-        let jwtClaims: JWTClaims;
-        try {
-            jwtClaims = await this.authService.verifyToken(token);
-        } catch (_) {
-            return httpCode.forbidden('The provided token is invalid.');
+        const authentication = await authenticate(this.authService, token);
+        if (!authentication.authenticated) {
+            return authentication.response;
         }
+        const jwtClaims = authentication.claims;
 
         if (!canManageUser(jwtClaims, bdeUUID)) {
             return httpCode.forbidden('You do not have permission to fetch account requests for this BDE.');
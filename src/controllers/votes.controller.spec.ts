@@ -0,0 +1,204 @@
+import chai from 'chai';
+import { mock, instance, when, anything, reset, verify, capture } from 'ts-mockito';
+import { AuthenticationService, LoggingService, ElectionsService, ElectionsServiceError, ElectionsErrorType, JWTClaims } from '../services';
+import { VotesService, VotesServiceError, VotesErrorType } from '../services/vote.service';
+import { VotesController } from '../controllers';
+import { HttpCode } from '../utils/http-code';
+import { hashOneTimeToken } from '../utils/one-time-token';
+import { Election } from '../models';
+import { DateTime } from 'luxon';
+
+const { expect } = chai;
+
+describe('Votes controller', () => {
+
+    const authServiceMock = mock<AuthenticationService>();
+    const votesServiceMock = mock<VotesService>();
+    const electionsServiceMock = mock<ElectionsService>();
+    const loggingServiceMock = mock<LoggingService>();
+    const controller = new VotesController(
+        instance(authServiceMock),
+        instance(votesServiceMock),
+        instance(electionsServiceMock),
+        instance(loggingServiceMock)
+    );
+
+    const jwtClaims: JWTClaims = {
+        bdeUUID: 'bde-uuid',
+        firstname: 'Firstname',
+        lastname: 'Lastname',
+        permissions: [],
+        uuid: 'the-uuid',
+    };
+
+    const openElection: Election = {
+        electionUUID: 'election-uuid',
+        bdeUUID: 'bde-uuid',
+        title: 'BDE election',
+        lists: ['allintech', 'toutankhatech'],
+        opening: DateTime.local().minus({ days: 1 }),
+        closing: DateTime.local().plus({ days: 1 }),
+        blankVoteAllowed: false,
+        resultsPublished: false,
+    };
+
+    beforeEach(() => {
+        reset(authServiceMock);
+        reset(votesServiceMock);
+        reset(electionsServiceMock);
+        reset(loggingServiceMock);
+        when(authServiceMock.verifyToken('the-token')).thenResolve(jwtClaims);
+        when(electionsServiceMock.findByUUID('election-uuid')).thenResolve(openElection);
+    });
+
+    describe('vote', () => {
+
+        it('should return "unauthorized" http code if no token is given', async () => {
+            const result = await controller.vote('election-uuid', { liste: 'allintech' });
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return "forbidden" http code if an API key is given', async () => {
+            when(authServiceMock.verifyToken('the-api-key')).thenResolve({ ... jwtClaims, uuid: 'api-key-uuid', apiKey: true });
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-api-key');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code if the list is missing', async () => {
+            const result = await controller.vote('election-uuid', {}, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should return "not found" http code if the election does not exist', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenReject(new ElectionsServiceError('', ElectionsErrorType.ELECTION_NOT_EXISTS));
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+        it('should return "forbidden" http code if the election is organized by an other BDE', async () => {
+            when(authServiceMock.verifyToken('the-token')).thenResolve({ ... jwtClaims, bdeUUID: 'other-bde-uuid' });
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code if the election is not open yet', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({ ... openElection, opening: DateTime.local().plus({ hours: 1 }) });
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "forbidden" http code if the election is closed', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({ ... openElection, closing: DateTime.local().minus({ hours: 1 }) });
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should return "bad request" http code if blank vote is not allowed', async () => {
+            const result = await controller.vote('election-uuid', { liste: '' }, 'the-token');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should record a blank vote if blank vote is allowed', async () => {
+            when(electionsServiceMock.findByUUID('election-uuid')).thenResolve({ ... openElection, blankVoteAllowed: true });
+
+            const result = await controller.vote('election-uuid', { liste: '' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [, ballot] = capture(votesServiceMock.vote).last();
+            expect(ballot.liste).to.be.null;
+        });
+
+        it('should return "bad request" http code if the list is not a candidate of the election', async () => {
+            const result = await controller.vote('election-uuid', { liste: 'unknown' }, 'the-token');
+
+            verify(votesServiceMock.vote(anything(), anything())).never();
+            expect(result.code).to.eq(HttpCode.BadRequest);
+        });
+
+        it('should record the participation and an anonymous ballot bound to the returned receipt', async () => {
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            const [participation, ballot] = capture(votesServiceMock.vote).last();
+            expect(participation).to.deep.eq({ electionUUID: 'election-uuid', userUUID: 'the-uuid' });
+            expect(ballot).to.deep.eq({ electionUUID: 'election-uuid', liste: 'allintech', receiptHash: hashOneTimeToken(result.body['receipt']) });
+            expect(ballot).to.not.have.property('userUUID');
+        });
+
+        it('should return "forbidden" http code if the user already voted', async () => {
+            when(votesServiceMock.vote(anything(), anything())).thenReject(new VotesServiceError('', VotesErrorType.ALREADY_VOTED));
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Forbidden);
+        });
+
+        it('should log the error and return "internal server error" http code if votes service rejects with INTERNAL error', async () => {
+            when(votesServiceMock.vote(anything(), anything())).thenReject(new VotesServiceError('', VotesErrorType.INTERNAL));
+
+            const result = await controller.vote('election-uuid', { liste: 'allintech' }, 'the-token');
+
+            verify(loggingServiceMock.error(anything())).once();
+            expect(result.code).to.eq(HttpCode.InternalServerError);
+        });
+
+    });
+
+    describe('getVote', () => {
+
+        it('should return "unauthorized" http code if no token is given', async () => {
+            const result = await controller.getVote('election-uuid', null);
+
+            expect(result.code).to.eq(HttpCode.Unauthorized);
+        });
+
+        it('should return whether or not the user voted if no receipt is given', async () => {
+            when(votesServiceMock.hasVoted('election-uuid', 'the-uuid')).thenResolve(true);
+
+            const result = await controller.getVote('election-uuid', null, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ hasVoted: true });
+            verify(votesServiceMock.findBallot(anything(), anything())).never();
+        });
+
+        it('should return the ballot matching the given receipt', async () => {
+            when(votesServiceMock.hasVoted('election-uuid', 'the-uuid')).thenResolve(true);
+            when(votesServiceMock.findBallot('election-uuid', hashOneTimeToken('the-receipt'))).thenResolve({ electionUUID: 'election-uuid', liste: 'allintech', receiptHash: hashOneTimeToken('the-receipt') });
+
+            const result = await controller.getVote('election-uuid', { receipt: 'the-receipt' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.Ok);
+            expect(result.body).to.deep.eq({ hasVoted: true, vote: 'allintech' });
+        });
+
+        it('should return "not found" http code if no ballot matches the given receipt', async () => {
+            when(votesServiceMock.hasVoted('election-uuid', 'the-uuid')).thenResolve(true);
+            when(votesServiceMock.findBallot('election-uuid', hashOneTimeToken('the-receipt'))).thenReject(new VotesServiceError('', VotesErrorType.BALLOT_NOT_EXISTS));
+
+            const result = await controller.getVote('election-uuid', { receipt: 'the-receipt' }, 'the-token');
+
+            expect(result.code).to.eq(HttpCode.NotFound);
+        });
+
+    });
+
+});
@@ -1,57 +1,101 @@
 import { ValidatorBuilder } from "../validation";
 import * as httpCode from "../utils/http-code";
-import { AuthenticationService, JWTClaims } from "../services";
+import { authenticate } from "./auth-guard";
+import { AuthenticationService, LoggingService } from "../services";
 import { VotesService, VotesErrorType } from "../services/vote.service";
+import { ElectionsService, ElectionsErrorType } from "../services/elections.service";
+import { Election } from "../models";
+import { DateTime } from "luxon";
+import { generateOneTimeToken, hashOneTimeToken } from "../utils/one-time-token";
 
 export class VotesController {
   private static VOTE_VALIDATOR = ValidatorBuilder.new<{ liste: string }>()
     .requires("liste")
     .toBeString()
-    .matching(/^allintech|toutankhatech|blanc|$/)
+    .build();
+
+  private static RECEIPT_VALIDATOR = ValidatorBuilder.new<{ receipt?: string }>()
+    .optional("receipt")
+    .toBeString()
+    .withMinLength(1)
     .build();
 
   constructor(
     private authService: AuthenticationService,
-    private votesService: VotesService
+    private votesService: VotesService,
+    private electionsService: ElectionsService,
+    private loggingService: LoggingService
   ) {}
 
-  async getVote(token?: string) {
-    /* No token were given, we return an unauthorized error */
-    if (!token) {
-      return httpCode.unauthorized("You must be connected.");
+  /**
+   * Checks whether or not the given election is currently accepting ballots.
+   *
+   * @param election The election to check
+   */
+  isVotingOpen(election: Election) {
+    const now = DateTime.local();
+    return election.opening <= now && now < election.closing;
+  }
+
+  /**
+   * Handles a request that aims to know whether or not the user voted for an election.
+   * As ballots are anonymous, the user choice can only be retrieved by providing the receipt
+   * received when voting.
+   *
+   * @param electionUUID The election UUID
+   * @param body The request body, optionally containing the ballot receipt
+   * @param token The JWT to authenticate user
+   */
+  async getVote(electionUUID: string, body: object | null, token?: string) {
+    const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+    if (!authentication.authenticated) {
+      return authentication.response;
     }
+    const jwtClaims = authentication.claims;
 
-    /* We verify token validity */
-    let jwtClaims: JWTClaims;
-    try {
-      jwtClaims = await this.authService.verifyToken(token);
-    } catch (_) {
-      return httpCode.forbidden("The given token is invalid.");
+    const result = VotesController.RECEIPT_VALIDATOR.validate(body || {});
+
+    if (!result.valid) {
+      return httpCode.badRequest(result.error.message);
     }
 
+    let hasVoted: boolean;
     try {
-      const vote = await this.votesService.getVote(jwtClaims.uuid);
-      return httpCode.ok({ vote });
+      hasVoted = await this.votesService.hasVoted(electionUUID, jwtClaims.uuid);
     } catch (e) {
+      this.loggingService.error(e);
       return httpCode.internalServerError(
         "Impossible to retrieve current vote"
       );
     }
-  }
 
-  async vote(body: object | null, token?: string) {
-    /* No token were given, we return an unauthorized error */
-    if (!token) {
-      return httpCode.unauthorized("You must be connected.");
+    if (!result.value.receipt) {
+      return httpCode.ok({ hasVoted });
     }
 
-    /* We verify token validity */
-    let jwtClaims: JWTClaims;
     try {
-      jwtClaims = await this.authService.verifyToken(token);
-    } catch (_) {
-      return httpCode.forbidden("The given token is invalid.");
+      const ballot = await this.votesService.findBallot(
+        electionUUID,
+        hashOneTimeToken(result.value.receipt)
+      );
+      return httpCode.ok({ hasVoted, vote: ballot.liste });
+    } catch (e) {
+      if (e.type === VotesErrorType.BALLOT_NOT_EXISTS) {
+        return httpCode.notFound("No ballot matches the given receipt.");
+      }
+      this.loggingService.error(e);
+      return httpCode.internalServerError(
+        "Impossible to retrieve current vote"
+      );
+    }
+  }
+
+  async vote(electionUUID: string, body: object | null, token?: string) {
+    const authentication = await authenticate(this.authService, token, { allowApiKeys: false });
+    if (!authentication.authenticated) {
+      return authentication.response;
     }
+    const jwtClaims = authentication.claims;
 
     const result = VotesController.VOTE_VALIDATOR.validate(body);
 
@@ -59,17 +103,61 @@ export class VotesController {
       return httpCode.badRequest(result.error.message);
     }
 
+    /* Retrieving the election */
+    let election: Election;
+    try {
+      election = await this.electionsService.findByUUID(electionUUID);
+    } catch (e) {
+      if (e.type === ElectionsErrorType.ELECTION_NOT_EXISTS) {
+        return httpCode.notFound("No election with the given UUID exists.");
+      }
+      this.loggingService.error(e);
+      return httpCode.internalServerError("Unable to vote, sorry");
+    }
+
+    /* Only members of the organizing BDE can vote, and only during the voting window */
+    if (jwtClaims.bdeUUID !== election.bdeUUID) {
+      return httpCode.forbidden("You can't vote for an election of an other BDE.");
+    }
+
+    if (!this.isVotingOpen(election)) {
+      return httpCode.forbidden("This election is not open for voting.");
+    }
+
+    /* An empty list name stands for a blank vote */
     const liste = result.value.liste.length ? result.value.liste : null;
 
+    if (liste === null && !election.blankVoteAllowed) {
+      return httpCode.badRequest("Blank vote is not allowed for this election.");
+    }
+
+    if (liste !== null && !election.lists.includes(liste)) {
+      return httpCode.badRequest("The given list is not a candidate of this election.");
+    }
+
+    /* The receipt is only given to the voter, only its hash is stored along with the anonymous ballot */
+    const { token: receipt, hash: receiptHash } = generateOneTimeToken();
+
     try {
-      await this.votesService.vote(liste, jwtClaims.uuid);
+      await this.votesService.vote(
+        { electionUUID: election.electionUUID, userUUID: jwtClaims.uuid },
+        { electionUUID: election.electionUUID, liste, receiptHash }
+      );
       return httpCode.ok({
         currentVoted: liste,
+        receipt,
       });
     } catch (e) {
       if (e.type === VotesErrorType.INVALID_USER) {
         return httpCode.badRequest("You arent known from the database");
       }
+      if (e.type === VotesErrorType.ELECTION_NOT_EXISTS) {
+        return httpCode.notFound("No election with the given UUID exists.");
+      }
+      if (e.type === VotesErrorType.ALREADY_VOTED) {
+        return httpCode.forbidden("You already voted for this election.");
+      }
+      this.loggingService.error(e);
       return httpCode.internalServerError("Unable to vote, sorry");
     }
   }
@@ -1,6 +1,9 @@
 export * from './models';
 export * from './services';
 export * from './controllers';
+export * from './config';
 export * from './utils/hash';
+export * from './utils/password-policy';
 export * from './utils/http-code';
+export * from './utils/key-ring';
 export { permissionsFromStrings } from './utils/permissions';
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { DateTime } from 'luxon';
+import { Permission } from './user.model';
+
+/**
+ * API key allowing an integration (script, kiosk app...) to act on behalf of a BDE with a subset of permissions.
+ * Only the hash of the key is stored, the key itself is only given once to its creator.
+ */
+export interface ApiKey {
+
+    /** API key unique identifier */
+    apiKeyUUID: string;
+
+    /** UUID of the BDE the API key belongs to */
+    bdeUUID: string;
+
+    /** API key display name */
+    name: string;
+
+    /** Hash of the API key */
+    hashedKey: string;
+
+    /** Permissions given by this API key */
+    permissions: Permission[];
+
+    /** Date at which the API key has been created */
+    createdAt: DateTime;
+
+    /** Date at which the API key has been used for the last time, if ever used */
+    lastUsedAt?: DateTime;
+
+}
@@ -9,4 +9,7 @@ export interface BDE {
     /** Available specialties for this BDE */
     specialties: { name: string, minYear: number, maxYear: number}[];
 
+    /** Whether or not users holding privileged permissions must use two-factor authentication (optional) */
+    enforceTwoFactor?: boolean;
+
 }
\ No newline at end of file
@@ -1,3 +1,13 @@
+/**
+ * States a booking can be in.
+ */
+export enum BookingState {
+    /** The user has a seat for the event */
+    CONFIRMED = 'confirmed',
+    /** The event is full, the user waits for a seat to be released */
+    WAITING = 'waiting',
+}
+
 export interface Booking {
 
     /** The UUID of the user who booked */
@@ -6,4 +16,7 @@ export interface Booking {
     /** The UUID of the booked event */
     eventUUID: string;
 
-}
\ No newline at end of file
+    /** The state of the booking */
+    state: BookingState;
+
+}
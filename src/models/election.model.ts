@@ -0,0 +1,57 @@
+import { DateTime } from 'luxon';
+
+export interface Election {
+
+    /** Election unique identifier */
+    electionUUID: string;
+
+    /** UUID of the BDE which organizes the election */
+    bdeUUID: string;
+
+    /** Election display title */
+    title: string;
+
+    /** Names of the candidate lists */
+    lists: string[];
+
+    /** Date from which members can vote */
+    opening: DateTime;
+
+    /** Date from which members can't vote anymore */
+    closing: DateTime;
+
+    /** Whether or not members can cast a blank vote */
+    blankVoteAllowed: boolean;
+
+    /** Whether or not results have been published to all users by an administrator */
+    resultsPublished: boolean;
+
+}
+
+/**
+ * Results of an election.
+ */
+export interface ElectionResults {
+
+    /** UUID of the election */
+    electionUUID: string;
+
+    /** Number of votes for each list */
+    lists: { [list: string]: number };
+
+    /** Number of blank votes */
+    blank: number;
+
+    /** Number of members who did not vote */
+    abstention: number;
+
+    /** Number of BDE members */
+    members: number;
+
+    /** Number of votes */
+    voters: number;
+
+    /** Participation of members for each specialty and year */
+    participation: { specialty: string, year: number, members: number, voters: number, rate: number }[];
+
+}
@@ -14,6 +14,9 @@ export interface Event {
     /** Date at which users must not book anymore (optional)  */
     bookingEnd?: DateTime;
 
+    /** Date after which users can't cancel their booking by themselves anymore (optional) */
+    cancellationDeadline?: DateTime;
+
     /** Date at which event take place (optional) (indicative) */
     eventDate?: DateTime;
 
@@ -23,4 +26,7 @@ export interface Event {
     /** Is this event a draft */
     isDraft: boolean;
 
+    /** Maximum number of confirmed bookings (optional, unlimited if not set) */
+    capacity?: number;
+
 }
@@ -0,0 +1,20 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Link between an account of an external identity provider (university single sign-on for example) and an user.
+ */
+export interface ExternalIdentity {
+
+    /** Identifier of the identity provider */
+    provider: string;
+
+    /** Identifier of the account within the identity provider (`sub` claim) */
+    subject: string;
+
+    /** UUID of the linked user */
+    userUUID: string;
+
+    /** Date at which the account has been linked */
+    linkedAt: DateTime;
+
+}
@@ -1,4 +1,12 @@
 export * from './bde.model';
 export * from './booking.model';
 export * from './event.model';
-export * from './user.model';
\ No newline at end of file
+export * from './user.model';
+export * from './refresh-token.model';
+export * from './one-time-token.model';
+export * from './election.model';
+export * from './vote.model';
+export * from './role.model';
+export * from './login-attempts.model';
+export * from './api-key.model';
+export * from './external-identity.model';
\ No newline at end of file
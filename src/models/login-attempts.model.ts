@@ -0,0 +1,14 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Failed login attempts recorded for a key (an email or an IP address).
+ */
+export interface LoginAttempts {
+
+    /** Number of consecutive failed attempts */
+    failures: number;
+
+    /** Date of the last failed attempt */
+    lastFailure: DateTime;
+
+}
@@ -0,0 +1,34 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Purposes a one-time token can be issued for.
+ */
+export enum OneTimeTokenType {
+    PASSWORD_RESET = 'password_reset',
+    EMAIL_CHANGE = 'email_change',
+    MAGIC_LINK = 'magic_link',
+    TWO_FACTOR_CHALLENGE = 'two_factor_challenge',
+}
+
+/**
+ * Single-use token sent to an user (by mail for example) to prove its identity.
+ * Only the hash of the token is stored, the token itself is only known by the user.
+ */
+export interface OneTimeToken {
+
+    /** Hash of the token (unique) */
+    tokenHash: string;
+
+    /** Purpose of the token */
+    type: OneTimeTokenType;
+
+    /** UUID of the user the token has been issued to */
+    userUUID: string;
+
+    /** Date after which the token can't be used anymore */
+    expiresAt: DateTime;
+
+    /** Data bound to the token (for example, the requested new email for an email change) */
+    data?: string;
+
+}
@@ -0,0 +1,21 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Refresh token model.
+ * Only the metadata of the refresh token is stored, the token itself is a signed JWT held by the client.
+ */
+export interface RefreshToken {
+
+    /** Refresh token unique identifier (`jti` claim of the token) */
+    tokenUUID: string;
+
+    /** UUID of the user the token has been issued to */
+    userUUID: string;
+
+    /** Date after which the token can't be used anymore */
+    expiresAt: DateTime;
+
+    /** Whether or not the token has been revoked (either explicitly or because it has already been used) */
+    revoked: boolean;
+
+}
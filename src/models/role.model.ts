@@ -0,0 +1,20 @@
+import { Permission } from './user.model';
+
+/**
+ * Role defined by a BDE. A role bundles permissions which are given to each user having this role.
+ */
+export interface Role {
+
+    /** Role unique identifier */
+    roleUUID: string;
+
+    /** UUID of the BDE the role belongs to */
+    bdeUUID: string;
+
+    /** Role display name (unique within a BDE) */
+    name: string;
+
+    /** Permissions given by this role */
+    permissions: Permission[];
+
+}
@@ -30,6 +30,18 @@ export interface User {
     /** User permissions */
     permissions: Permission[];
 
+    /** UUIDs of the roles given to the user (optional) */
+    roles?: string[];
+
+    /** Two-factor authentication settings of the user, if enrolled */
+    twoFactor?: TwoFactor;
+
+    /**
+     * Random value renewed each time the permissions or the roles of the user change (optional).
+     * It is embedded in access tokens, which are rejected once it changes.
+     */
+    securityStamp?: string;
+
     /** Whether or not the user is a member */
     member: boolean;
 
@@ -58,11 +70,33 @@ export interface UnregisteredUser {
     /** User permissions */
     permissions: Permission[];
 
+    /** UUIDs of the roles given to the user (optional) */
+    roles?: string[];
+
     /** Whether or not the user is a member */
     member: boolean;
 
 }
 
+/**
+ * Two-factor authentication (TOTP) settings of an user.
+ */
+export interface TwoFactor {
+
+    /** Base32 encoded TOTP secret */
+    secret: string;
+
+    /** Whether or not the enrollment has been confirmed. A second factor is only requested once enabled */
+    enabled: boolean;
+
+    /** Hashes of the recovery codes that have not been used yet */
+    recoveryCodes: string[];
+
+    /** Last TOTP time step accepted. Codes of this step or of previous steps are refused so that a code can't be replayed */
+    lastUsedStep?: number;
+
+}
+
 /**
  * Permission that can be given to an user.
  */
@@ -87,6 +121,7 @@ export const Permissions: {
     MANAGE_PERMISSIONS: Permission,
     MANAGE_BDE: Permission,
     MANAGE_EVENTS: Permission,
+    MANAGE_ELECTIONS: Permission,
 } = {
 
     /**
@@ -130,4 +165,12 @@ export const Permissions: {
         modifiable: true,
     },
 
+    /**
+     * This permission allows an user to create/modify/delete an election organized by its BDE.
+     */
+    MANAGE_ELECTIONS: {
+        name: 'manage_elections',
+        modifiable: true,
+    },
+
 };
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Anonymous ballot. A ballot must never be linkable to the user who cast it.
+ */
+export interface Ballot {
+
+    /** UUID of the election the ballot is for */
+    electionUUID: string;
+
+    /** Name of the chosen list, or null for a blank vote */
+    liste: string | null;
+
+    /** Hash of the receipt given to the voter, which allows the voter (and only the voter) to find its ballot back */
+    receiptHash: string;
+
+}
+
+/**
+ * Record of the fact that an user voted for an election. It does not hold the user choice.
+ */
+export interface Participation {
+
+    /** UUID of the election the user voted for */
+    electionUUID: string;
+
+    /** UUID of the user who voted */
+    userUUID: string;
+
+}
@@ -0,0 +1,95 @@
+import { DateTime } from 'luxon';
+import { ApiKey } from '../models';
+
+/**
+ * Types of error that can be thrown by ApiKeysService.
+ */
+export enum ApiKeysErrorType {
+    INTERNAL,
+    API_KEY_NOT_EXISTS,
+    BDE_NOT_EXISTS,
+}
+
+/**
+ * API keys access service.
+ */
+export interface ApiKeysService {
+
+    /**
+     * Creates the given API key.
+     * 
+     * @param apiKey The API key to create
+     * 
+     * @returns the API key if creation is a success
+     * @throws BDE_NOT_EXISTS error if no BDE with the bde UUID of the given API key exists
+     * @throws INTERNAL error in any other case
+     */
+    create(apiKey: ApiKey): Promise<ApiKey>;
+
+    /**
+     * Deletes the API key with the given UUID.
+     * 
+     * @param uuid The API key UUID
+     * 
+     * @throws API_KEY_NOT_EXISTS error if no API key with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    delete(uuid: string): Promise<void>;
+
+    /**
+     * Finds the API key with the given UUID.
+     * 
+     * @param uuid The API key UUID
+     * 
+     * @returns the API key with the given UUID if found
+     * @throws API_KEY_NOT_EXISTS error if no API key with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    findByUUID(uuid: string): Promise<ApiKey>;
+
+    /**
+     * Finds the API key with the given hash.
+     * 
+     * @param hashedKey The hash of the API key
+     * 
+     * @returns the API key with the given hash if found
+     * @throws API_KEY_NOT_EXISTS error if no API key with the given hash exists
+     * @throws INTERNAL error in any other case
+     */
+    findByHash(hashedKey: string): Promise<ApiKey>;
+
+    /**
+     * Finds all API keys of the BDE with the given UUID.
+     * 
+     * Note: in the case of an unknown BDE UUID, just return an empty array
+     * 
+     * @param bdeUUID The BDE UUID
+     * 
+     * @returns an array of API keys if search is a success
+     * @throws INTERNAL error in any case of failure
+     */
+    findByBDE(bdeUUID: string): Promise<ApiKey[]>;
+
+    /**
+     * Stores the date at which the API key with the given UUID has been used for the last time.
+     * 
+     * @param uuid The API key UUID
+     * @param date The date of last use
+     * 
+     * @throws API_KEY_NOT_EXISTS error if no API key with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    updateLastUsed(uuid: string, date: DateTime): Promise<void>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class ApiKeysServiceError extends Error {
+
+    constructor(message: string, public type: ApiKeysErrorType) {
+        super(message);
+    }
+
+}
@@ -0,0 +1,85 @@
+import { DateTime } from 'luxon';
+import { LoginAttempts } from '../models';
+
+/**
+ * Storage of failed login attempts used by the login throttler.
+ * An in-memory implementation is provided, but a shared storage should be used
+ * when several instances of the backend are running.
+ */
+export interface AttemptStore {
+
+    /**
+     * Finds the attempts recorded for the given key.
+     *
+     * @return the recorded attempts, or null if none were recorded or if they have expired
+     *
+     * @param key The key (email or IP address) to find attempts for
+     */
+    get(key: string): Promise<LoginAttempts | null>;
+
+    /**
+     * Stores the attempts for the given key, replacing the previous ones.
+     *
+     * @param key The key (email or IP address)
+     * @param attempts The attempts to store
+     * @param expiresAt The date after which the attempts can be forgotten
+     */
+    set(key: string, attempts: LoginAttempts, expiresAt: DateTime): Promise<void>;
+
+    /**
+     * Atomically records a failed attempt for the given key : the number of failures is incremented
+     * and the date of the last failure is replaced. Concurrent increments must never be lost.
+     *
+     * @returns the number of failures recorded for the key, including this one
+     *
+     * @param key The key (email or IP address)
+     * @param failedAt The date of the failed attempt
+     * @param expiresAt The date after which the attempts can be forgotten
+     */
+    increment(key: string, failedAt: DateTime, expiresAt: DateTime): Promise<number>;
+
+    /**
+     * Forgets the attempts recorded for the given key.
+     *
+     * @param key The key (email or IP address)
+     */
+    delete(key: string): Promise<void>;
+
+}
+
+/**
+ * Attempt store keeping attempts in the process memory.
+ */
+export class InMemoryAttemptStore implements AttemptStore {
+
+    private attempts = new Map<string, { attempts: LoginAttempts, expiresAt: DateTime }>();
+
+    async get(key: string): Promise<LoginAttempts | null> {
+        const entry = this.attempts.get(key);
+        if (!entry) {
+            return null;
+        }
+        if (entry.expiresAt < DateTime.local()) {
+            this.attempts.delete(key);
+            return null;
+        }
+        return entry.attempts;
+    }
+
+    async set(key: string, attempts: LoginAttempts, expiresAt: DateTime): Promise<void> {
+        this.attempts.set(key, { attempts, expiresAt });
+    }
+
+    async increment(key: string, failedAt: DateTime, expiresAt: DateTime): Promise<number> {
+        /* Nothing is awaited between reading and writing the entry, so increments can't interleave */
+        const entry = this.attempts.get(key);
+        const failures = (entry && entry.expiresAt >= DateTime.local() ? entry.attempts.failures : 0) + 1;
+        this.attempts.set(key, { attempts: { failures, lastFailure: failedAt }, expiresAt });
+        return failures;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.attempts.delete(key);
+    }
+
+}
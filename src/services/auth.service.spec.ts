@@ -1,10 +1,20 @@
 import { AuthenticationService, JWTClaims } from './auth.service';
 import { UsersService, UsersServiceError, UsersErrorType } from './users.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { RolesService } from './roles.service';
+import { ApiKeysService, ApiKeysServiceError, ApiKeysErrorType } from './api-keys.service';
+import { OneTimeTokenService, OneTimeTokenServiceError, OneTimeTokenErrorType } from './one-time-token.service';
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
-import { mock, instance, when, anyString, spy, verify } from 'ts-mockito'
+import { mock, instance, when, anyString, anything, spy, verify, reset, capture } from 'ts-mockito'
 import { HashStrategy } from '../utils/hash';
-import { User } from '../models';
+import { generateApiKey } from '../utils/one-time-token';
+import { KeyRing } from '../utils/key-ring';
+import { createConfig } from '../config';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, RefreshToken, Permissions, OneTimeTokenType } from '../models';
+import { DateTime } from 'luxon';
 
 chai.use(chaiAsPromised);
 
@@ -12,7 +22,23 @@ const { expect } = chai;
 
 describe('Authentication service', () => {
 
-    const hashStrategy: HashStrategy = { hash: (data) => Promise.resolve(data), check: async (plain, hashed) => plain === hashed };
+    const refreshTokenService = mock<RefreshTokenService>();
+    const rolesService = mock<RolesService>();
+    const oneTimeTokenService = mock<OneTimeTokenService>();
+
+    beforeEach(() => {
+        reset(refreshTokenService);
+        reset(rolesService);
+        reset(oneTimeTokenService);
+        when(refreshTokenService.isAccessTokenRevoked(anyString())).thenResolve(false);
+        when(refreshTokenService.findSessionsRevocationDate(anyString())).thenResolve(null);
+    });
+
+    const hashStrategy: HashStrategy = {
+        hash: (data) => Promise.resolve(data),
+        check: async (plain, hashed) => plain === hashed,
+        needsRehash: () => false,
+    };
 
     let user: User = {
         email: 'the-email',
@@ -32,7 +58,7 @@ describe('Authentication service', () => {
         it('should reject if the user does not exists', () => {
             let usersService = mock<UsersService>();
             when(usersService.findByEmail(anyString())).thenReject(new UsersServiceError('User not found', UsersErrorType.USER_NOT_EXISTS));
-            let service = new AuthenticationService(instance(usersService), hashStrategy);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
 
             expect(service.authenticate('the-email', 'the-password')).to.be.rejectedWith(UsersServiceError);
         });
@@ -40,7 +66,7 @@ describe('Authentication service', () => {
         it('should reject if user exists but password does not match', () => {
             let usersService = mock<UsersService>();
             when(usersService.findByEmail('the-email')).thenResolve(user);
-            let service = new AuthenticationService(instance(usersService), hashStrategy);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
 
             expect(service.authenticate('the-email', 'wrong-password')).to.be.rejectedWith(Error);
         });
@@ -48,7 +74,7 @@ describe('Authentication service', () => {
         it('should return the resolve if the user exists and the password is matching', () => {
             let usersService = mock<UsersService>();
             when(usersService.findByEmail('the-email')).thenResolve(user);
-            let service = new AuthenticationService(instance(usersService), hashStrategy);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
 
             expect(service.authenticate('the-email', 'the-password')).to.be.fulfilled;
         });
@@ -57,19 +83,53 @@ describe('Authentication service', () => {
             let usersService = mock<UsersService>();
             when(usersService.findByEmail('the-email')).thenResolve(user);
             const hashSpy = spy(hashStrategy);
-            let service = new AuthenticationService(instance(usersService), hashStrategy);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
 
             await service.authenticate('the-email', 'the-password');
             verify(hashSpy.check('the-password', anyString())).once();
         });
 
+        it('should not update the password if the hash does not need to be upgraded', async () => {
+            let usersService = mock<UsersService>();
+            when(usersService.findByEmail('the-email')).thenResolve(user);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            await service.authenticate('the-email', 'the-password');
+            verify(usersService.updatePassword(anything(), anything())).never();
+        });
+
+        it('should re-hash and persist the password if the hash needs to be upgraded', async () => {
+            let usersService = mock<UsersService>();
+            when(usersService.findByEmail('the-email')).thenResolve(user);
+            const legacyStrategy: HashStrategy = {
+                hash: (data) => Promise.resolve(`{new}${data}`),
+                check: async (plain, hashed) => plain === hashed,
+                needsRehash: (hashed) => !hashed.startsWith('{new}'),
+            };
+            let service = new AuthenticationService(instance(usersService), legacyStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            const authenticatedUser = await service.authenticate('the-email', 'the-password');
+            verify(usersService.updatePassword('the-uuid', '{new}the-password')).once();
+            expect(authenticatedUser.password).to.eq('{new}the-password');
+        });
+
+        it('should authenticate the user even if the re-hashed password can not be persisted', async () => {
+            let usersService = mock<UsersService>();
+            when(usersService.findByEmail('the-email')).thenResolve(user);
+            when(usersService.updatePassword(anything(), anything())).thenReject(new UsersServiceError('', UsersErrorType.INTERNAL));
+            let service = new AuthenticationService(instance(usersService), { ... hashStrategy, needsRehash: () => true }, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            await expect(service.authenticate('the-email', 'the-password')).to.be.fulfilled;
+        });
+
     });
 
     describe('generateToken and verifyToken methods (IT)', () => {
 
         it('should encode and decode correctly and return encoded claims', async () => {
             let usersService = mock<UsersService>();
-            let service = new AuthenticationService(instance(usersService), hashStrategy);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
 
             let token = await service.generateToken(user);
             let claims = await service.verifyToken(token);
@@ -85,4 +145,325 @@ describe('Authentication service', () => {
 
     });
 
+    describe('generateChallengeToken, verifyChallengeToken and consumeChallengeToken methods (IT)', () => {
+
+        it('should encode and decode the user UUID', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let challengeToken = await service.generateChallengeToken(user);
+            expect(await service.verifyChallengeToken(challengeToken)).to.eq('the-uuid');
+        });
+
+        it('should not accept a challenge token as an access token and vice versa', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            await expect(service.verifyToken(await service.generateChallengeToken(user))).to.be.rejectedWith(Error);
+            await expect(service.verifyChallengeToken(await service.generateToken(user))).to.be.rejectedWith(Error);
+        });
+
+        it('should consume a challenge token only once', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let challengeToken = await service.generateChallengeToken(user);
+            const [stored] = capture(oneTimeTokenService.create).last();
+            expect(stored).to.include({ type: OneTimeTokenType.TWO_FACTOR_CHALLENGE, userUUID: 'the-uuid' });
+
+            when(oneTimeTokenService.consume(stored.tokenHash, OneTimeTokenType.TWO_FACTOR_CHALLENGE))
+                .thenResolve(stored)
+                .thenReject(new OneTimeTokenServiceError('', OneTimeTokenErrorType.TOKEN_NOT_EXISTS));
+
+            expect(await service.consumeChallengeToken(challengeToken)).to.eq('the-uuid');
+            await expect(service.consumeChallengeToken(challengeToken)).to.be.rejectedWith(OneTimeTokenServiceError);
+        });
+
+    });
+
+    describe('asymmetric signing and key rotation (IT)', () => {
+
+        const ecKey = (kid: string) => {
+            const { publicKey, privateKey } = generateKeyPairSync('ec', {
+                namedCurve: 'P-256',
+                publicKeyEncoding: { type: 'spki', format: 'pem' },
+                privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+            });
+            return { kid, algorithm: <'ES256'>'ES256', publicKey, privateKey };
+        };
+
+        it('should sign with the current key and accept tokens of retired keys during the grace period', async () => {
+            const keyRing = new KeyRing([ecKey('first')], 'first');
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ keyRing }));
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+
+            const oldToken = await service.generateToken(user);
+            keyRing.rotate(ecKey('second'), 60);
+            const newToken = await service.generateToken(user);
+
+            expect(JSON.parse(Buffer.from(newToken.split('.')[0], 'base64').toString())).to.include({ alg: 'ES256', kid: 'second' });
+            await expect(service.verifyToken(oldToken)).to.be.fulfilled;
+            await expect(service.verifyToken(newToken)).to.be.fulfilled;
+            expect(service.getJWKS().keys.map((k) => k.kid)).to.deep.eq(['first', 'second']);
+        });
+
+        it('should reject tokens signed by a key whose grace period is over', async () => {
+            const keyRing = new KeyRing([ecKey('first')], 'first');
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ keyRing }));
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+
+            const oldToken = await service.generateToken(user);
+            keyRing.rotate(ecKey('second'), -1);
+
+            await expect(service.verifyToken(oldToken)).to.be.rejectedWith(Error);
+        });
+
+        it('should reject tokens signed by an unknown key', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ keyRing: new KeyRing([ecKey('first')], 'first') }));
+            let otherService = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ keyRing: new KeyRing([ecKey('other')], 'other') }));
+
+            await expect(service.verifyToken(await otherService.generateToken(user))).to.be.rejectedWith(Error);
+        });
+
+    });
+
+    describe('verifyToken method (IT)', () => {
+
+        it('should reject if the access token has been revoked', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(refreshTokenService.isAccessTokenRevoked(anyString())).thenResolve(true);
+
+            let token = await service.generateToken(user);
+            await expect(service.verifyToken(token)).to.be.rejectedWith(Error);
+        });
+
+        it('should reject if the user sessions have been revoked after token issuance', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(refreshTokenService.findSessionsRevocationDate(user.userUUID)).thenResolve(DateTime.local().plus({ minutes: 1 }));
+
+            let token = await service.generateToken(user);
+            await expect(service.verifyToken(token)).to.be.rejectedWith(Error);
+        });
+
+        it('should resolve permissions given by user roles', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(rolesService.findByUUIDs(anything())).thenResolve([
+                { roleUUID: 'role-uuid', bdeUUID: user.bdeUUID, name: 'Event staff', permissions: [Permissions.MANAGE_EVENTS] },
+                { roleUUID: 'other-role-uuid', bdeUUID: user.bdeUUID, name: 'Treasurer', permissions: [Permissions.MANAGE_USERS] },
+            ]);
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+
+            let token = await service.generateToken({ ... user, permissions: [Permissions.MANAGE_ELECTIONS], roles: ['role-uuid'] });
+            let claims = await service.verifyToken(token);
+
+            expect(claims.permissions).to.have.members([Permissions.MANAGE_ELECTIONS, Permissions.MANAGE_EVENTS]);
+        });
+
+        it('should reject if the security stamp of the user has been renewed after token issuance', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(usersService.findByUUID(user.userUUID)).thenResolve({ ... user, securityStamp: 'the-new-stamp' });
+
+            let token = await service.generateToken({ ... user, securityStamp: 'the-stamp' });
+            await expect(service.verifyToken(token)).to.be.rejectedWith(Error, 'permissions of the user have changed');
+        });
+
+        it('should cache security stamps and forget them once renewed', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+            when(usersService.updateSecurityStamp(user.userUUID, anyString())).thenResolve();
+
+            let token = await service.generateToken(user);
+            await service.verifyToken(token);
+            await service.verifyToken(token);
+            verify(usersService.findByUUID(user.userUUID)).once();
+
+            await service.renewSecurityStamp(user.userUUID);
+            when(usersService.findByUUID(user.userUUID)).thenResolve({ ... user, securityStamp: 'the-new-stamp' });
+            await expect(service.verifyToken(token)).to.be.rejectedWith(Error);
+        });
+
+        it('should reject if a refresh token is given', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let refreshToken = await service.generateRefreshToken(user);
+            await expect(service.verifyToken(refreshToken)).to.be.rejectedWith(Error);
+        });
+
+    });
+
+    describe('claims validation (IT)', () => {
+
+        it('should sign tokens using the configured lifetime, issuer and audience', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ accessTokenLifetime: 60, jwtIssuer: 'the-issuer', jwtAudience: 'the-audience' }));
+
+            let claims = <{ [key: string]: any }>jwt.decode(await service.generateToken(user));
+
+            expect(claims.exp - claims.iat).to.eq(60);
+            expect(claims).to.include({ iss: 'the-issuer', aud: 'the-audience' });
+        });
+
+        it('should reject tokens issued by another issuer or for another audience', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            let otherIssuer = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ jwtIssuer: 'other-issuer' }));
+            let otherAudience = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig({ jwtAudience: 'other-audience' }));
+
+            await expect(service.verifyToken(await otherIssuer.generateToken(user))).to.be.rejectedWith(Error);
+            await expect(service.verifyToken(await otherAudience.generateToken(user))).to.be.rejectedWith(Error);
+        });
+
+        it('should reject correctly signed tokens with malformed claims', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            let token = jwt.sign(
+                { uuid: 42, bde_uuid: 'the-bde-uuid', firstname: 'the-firstname', lastname: 'the-lastname', permissions: 'all', roles: [], token_type: 'access' },
+                'jwtsecret',
+                { expiresIn: 60, jwtid: 'the-jti', issuer: 'generic-backend', audience: 'generic-backend', keyid: 'default' }
+            );
+
+            await expect(service.verifyToken(token)).to.be.rejectedWith(Error, 'invalid claims');
+        });
+
+        it('should reject tokens without expiration date', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+            let token = jwt.sign(
+                { uuid: 'the-uuid', token_type: 'challenge' },
+                'jwtsecret',
+                { jwtid: 'the-jti', issuer: 'generic-backend', audience: 'generic-backend', keyid: 'default' }
+            );
+
+            await expect(service.verifyChallengeToken(token)).to.be.rejectedWith(Error, 'invalid claims');
+        });
+
+    });
+
+    describe('API keys', () => {
+
+        it('should accept an existing API key and record its use', async () => {
+            let apiKeysService = mock<ApiKeysService>();
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig(), instance(apiKeysService));
+            const { key, hash } = generateApiKey();
+            when(apiKeysService.findByHash(hash)).thenResolve({
+                apiKeyUUID: 'api-key-uuid',
+                bdeUUID: 'the-bde-uuid',
+                name: 'Kiosk',
+                hashedKey: hash,
+                permissions: [Permissions.MANAGE_EVENTS],
+                createdAt: DateTime.local(),
+            });
+
+            const claims = await service.verifyToken(key);
+
+            expect(claims).to.include({ uuid: 'api-key-uuid', bdeUUID: 'the-bde-uuid', apiKey: true });
+            expect(claims.permissions).to.deep.eq([Permissions.MANAGE_EVENTS]);
+            verify(apiKeysService.updateLastUsed('api-key-uuid', anything())).once();
+        });
+
+        it('should resolve the stored permissions of an API key to the known permissions', async () => {
+            let apiKeysService = mock<ApiKeysService>();
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig(), instance(apiKeysService));
+            const { key, hash } = generateApiKey();
+            when(apiKeysService.findByHash(hash)).thenResolve({
+                apiKeyUUID: 'api-key-uuid',
+                bdeUUID: 'the-bde-uuid',
+                name: 'Kiosk',
+                hashedKey: hash,
+                permissions: JSON.parse(JSON.stringify([Permissions.MANAGE_EVENTS])),
+                createdAt: DateTime.local(),
+            });
+
+            const claims = await service.verifyToken(key);
+
+            expect(claims.permissions).to.have.lengthOf(1);
+            expect(claims.permissions[0]).to.eq(Permissions.MANAGE_EVENTS);
+        });
+
+        it('should reject an unknown API key', async () => {
+            let apiKeysService = mock<ApiKeysService>();
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig(), instance(apiKeysService));
+            when(apiKeysService.findByHash(anyString())).thenReject(new ApiKeysServiceError('', ApiKeysErrorType.API_KEY_NOT_EXISTS));
+
+            await expect(service.verifyToken(generateApiKey().key)).to.be.rejectedWith(ApiKeysServiceError);
+        });
+
+        it('should reject API keys if no API keys service is given', async () => {
+            let service = new AuthenticationService(instance(mock<UsersService>()), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            await expect(service.verifyToken(generateApiKey().key)).to.be.rejectedWith(Error);
+        });
+
+    });
+
+    describe('generateRefreshToken and refreshTokens methods (IT)', () => {
+
+        let storedToken: RefreshToken;
+
+        beforeEach(() => {
+            when(refreshTokenService.create(anything())).thenCall((token: RefreshToken) => {
+                storedToken = token;
+                return Promise.resolve(token);
+            });
+            when(refreshTokenService.findByUUID(anyString())).thenCall(() => Promise.resolve(storedToken));
+            when(refreshTokenService.revoke(anyString())).thenCall((uuid: string) => {
+                const revoked = storedToken.tokenUUID === uuid && !storedToken.revoked;
+                storedToken = { ... storedToken, revoked: true };
+                return Promise.resolve(revoked);
+            });
+        });
+
+        it('should store the refresh token and exchange it for new tokens', async () => {
+            let usersService = mock<UsersService>();
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let refreshToken = await service.generateRefreshToken(user);
+            let firstTokenUUID = storedToken.tokenUUID;
+            let tokens = await service.refreshTokens(refreshToken);
+
+            verify(refreshTokenService.revoke(firstTokenUUID)).once();
+            expect(storedToken.tokenUUID).to.not.eq(firstTokenUUID);
+            expect(tokens.refreshToken).to.not.eq(refreshToken);
+            expect(await service.verifyToken(tokens.token)).to.have.property('uuid', user.userUUID);
+        });
+
+        it('should revoke all user sessions if an already used refresh token is given', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let refreshToken = await service.generateRefreshToken(user);
+            storedToken = { ... storedToken, revoked: true };
+
+            await expect(service.refreshTokens(refreshToken)).to.be.rejectedWith(Error);
+            verify(refreshTokenService.revokeAllForUser(user.userUUID, anything())).once();
+            verify(refreshTokenService.revoke(anyString())).never();
+        });
+
+        it('should exchange a refresh token only once and revoke all user sessions if it is exchanged concurrently', async () => {
+            let usersService = mock<UsersService>();
+            when(usersService.findByUUID(user.userUUID)).thenResolve(user);
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let refreshToken = await service.generateRefreshToken(user);
+            let results = await Promise.all([
+                service.refreshTokens(refreshToken).then(() => true, () => false),
+                service.refreshTokens(refreshToken).then(() => true, () => false),
+            ]);
+
+            expect(results.filter((exchanged) => exchanged)).to.have.lengthOf(1);
+            verify(refreshTokenService.revokeAllForUser(user.userUUID, anything())).once();
+        });
+
+        it('should reject if an access token is given', async () => {
+            let usersService = mock<UsersService>();
+            let service = new AuthenticationService(instance(usersService), hashStrategy, instance(refreshTokenService), instance(rolesService), instance(oneTimeTokenService), createConfig());
+
+            let token = await service.generateToken(user);
+            await expect(service.refreshTokens(token)).to.be.rejectedWith(Error);
+        });
+
+    });
+
 });
\ No newline at end of file
@@ -1,110 +1,487 @@
 import { UsersService } from "./users.service";
-import { User, Permission } from "../models";
+import { RefreshTokenService } from "./refresh-token.service";
+import { RolesService } from "./roles.service";
+import { ApiKeysService } from "./api-keys.service";
+import { OneTimeTokenService } from "./one-time-token.service";
+import { User, UnregisteredUser, Permission, OneTimeTokenType } from "../models";
 import { HashStrategy } from "../utils/hash";
-import { permissionsFromStrings } from '../utils/permissions';
+import { KeyRing, JWK } from "../utils/key-ring";
+import { BackendConfig } from "../config";
+import { ValidatorBuilder } from "../validation";
+import { Validator } from "../validation/steps";
+import { permissionsFromStrings, resolvePermissions } from '../utils/permissions';
+import { API_KEY_PREFIX, hashOneTimeToken } from '../utils/one-time-token';
 import jwt from 'jsonwebtoken';
+import { DateTime } from 'luxon';
+import { v4 as uuid } from 'uuid';
 
 /**
- * Secret used to encode JWT.
+ * Validators of the decoded claims of each type of token.
  */
-const JWT_SECRET = process.env.JWT_SECRET || 'jwtsecret';
-if (process.env.NODE_ENV === 'production' && JWT_SECRET === 'jwtsecret') {
-    console.warn('Default JWT_SECRET used in production. Please change it !');
-}
+const ACCESS_CLAIMS_VALIDATOR = ValidatorBuilder.new<DecodedJWTClaims>()
+    .requires('uuid').toBeString().withMinLength(1)
+    .requires('bde_uuid').toBeString().withMinLength(1)
+    .requires('firstname').toBeString()
+    .requires('lastname').toBeString()
+    .requires('permissions').toBeArray().withEachElement().toBeString()
+    .requires('roles').toBeArray().withEachElement().toBeString()
+    .requires('security_stamp').toBeString()
+    .requires('token_type').toBeString().matching(/^access$/)
+    .requires('jti').toBeString().withMinLength(1)
+    .requires('iat').toBeInteger()
+    .requires('exp').toBeInteger()
+    .build();
 
-/**
- * Algorithm used to encore JWT.
- */
-const JWT_ALGORITHM = 'HS256';
+const REFRESH_CLAIMS_VALIDATOR = ValidatorBuilder.new<DecodedRefreshClaims>()
+    .requires('uuid').toBeString().withMinLength(1)
+    .requires('token_type').toBeString().matching(/^refresh$/)
+    .requires('jti').toBeString().withMinLength(1)
+    .requires('iat').toBeInteger()
+    .requires('exp').toBeInteger()
+    .build();
+
+const CHALLENGE_CLAIMS_VALIDATOR = ValidatorBuilder.new<DecodedChallengeClaims>()
+    .requires('uuid').toBeString().withMinLength(1)
+    .requires('token_type').toBeString().matching(/^challenge$/)
+    .requires('jti').toBeString().withMinLength(1)
+    .requires('iat').toBeInteger()
+    .requires('exp').toBeInteger()
+    .build();
 
 /**
  * Class responsible for authenticating users.
  */
 export class AuthenticationService {
 
-    constructor(private usersService: UsersService, private hashStrategy: HashStrategy) {}
+    private keyRing: KeyRing;
+    private config: BackendConfig;
+    private securityStamps = new Map<string, { securityStamp: string, expiresAt: DateTime }>();
+
+    constructor(
+        private usersService: UsersService,
+        private hashStrategy: HashStrategy,
+        private refreshTokenService: RefreshTokenService,
+        private rolesService: RolesService,
+        private oneTimeTokenService: OneTimeTokenService,
+        config: BackendConfig,
+        private apiKeysService?: ApiKeysService
+    ) {
+        this.config = config;
+        this.keyRing = config.keyRing || KeyRing.fromSecret(config.jwtSecret);
+    }
 
     /**
      * Checks if an user with the given uuid and with the given password exists. 
+     * If the stored hash of the password uses a legacy algorithm or weaker parameters, the password is re-hashed and persisted.
      * 
      * @param user_email The email of the user
      * @param raw_password The plain password of the user
      */
     async authenticate(user_email: string, raw_password: string): Promise<User> {
         const user = await this.usersService.findByEmail(user_email);
+        if (!await this.checkPassword(user, raw_password)) {
+            throw new Error('Password don\'t match.');
+        }
+
+        if (this.hashStrategy.needsRehash(user.password)) {
+            try {
+                const hashedPassword = await this.hashStrategy.hash(raw_password);
+                await this.usersService.updatePassword(user.userUUID, hashedPassword);
+                return { ... user, password: hashedPassword };
+            } catch (_) {} // The old hash is still valid, the upgrade will be retried on next login
+        }
+        return user;
+    }
+
+    /**
+     * Checks whether or not the given plain password matches the password of the given user.
+     * 
+     * @param user The user to check password of
+     * @param raw_password The plain password to check
+     */
+    async checkPassword(user: User, raw_password: string): Promise<boolean> {
         try {
-            const match = await this.hashStrategy.check(raw_password, user.password)
-            if (match) {
-                return user;
-            }
+            return await this.hashStrategy.check(raw_password, user.password);
         } catch (_) {
             throw new Error('Unable to compare passwords');
         }
-        throw new Error('Password don\'t match.');
     }
 
     /**
-     * Generates a JWT for the given user.
+     * Generates a short-lived access JWT for the given user.
      * 
      * @param user The user to generate JWT for
      */
     generateToken(user: User): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const claims: SerializedJWTClaims = {
-                uuid: user.userUUID,
-                bde_uuid: user.bdeUUID,
-                firstname: user.firstname,
-                lastname: user.lastname,
-                permissions: user.permissions.map(p => p.name),
-            };
+        const claims: SerializedJWTClaims = {
+            uuid: user.userUUID,
+            bde_uuid: user.bdeUUID,
+            firstname: user.firstname,
+            lastname: user.lastname,
+            permissions: user.permissions.map(p => p.name),
+            roles: user.roles || [],
+            security_stamp: user.securityStamp || '',
+            token_type: 'access',
+        };
 
-            jwt.sign(claims, JWT_SECRET, { algorithm: JWT_ALGORITHM }, (err, token) => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(token!);
-                }
-            });
-        })
+        return this.sign(claims, { expiresIn: this.config.accessTokenLifetime, jwtid: uuid() });
     }
 
     /**
-     * Verifies the given token is valid. If the token is valid, it resolves
+     * Generates a refresh token for the given user and stores it using the refresh token service.
+     * 
+     * @param user The user to generate refresh token for
+     */
+    async generateRefreshToken(user: User): Promise<string> {
+        const tokenUUID = uuid();
+        const claims: SerializedRefreshClaims = {
+            uuid: user.userUUID,
+            token_type: 'refresh',
+        };
+
+        const token = await this.sign(claims, { expiresIn: this.config.refreshTokenLifetime, jwtid: tokenUUID });
+        await this.refreshTokenService.create({
+            tokenUUID,
+            userUUID: user.userUUID,
+            expiresAt: DateTime.local().plus({ seconds: this.config.refreshTokenLifetime }),
+            revoked: false,
+        });
+        return token;
+    }
+
+    /**
+     * Generates a short-lived challenge token for the given user. Such a token is issued once the password
+     * of the user is checked and proves it while the second authentication factor is requested.
+     * It can't be used as an access token and it can only be consumed once (see `consumeChallengeToken`).
+     * 
+     * @param user The user to generate challenge token for
+     */
+    async generateChallengeToken(user: User): Promise<string> {
+        const claims: SerializedChallengeClaims = {
+            uuid: user.userUUID,
+            token_type: 'challenge',
+        };
+
+        const jti = uuid();
+        const token = await this.sign(claims, { expiresIn: this.config.challengeTokenLifetime, jwtid: jti });
+        await this.oneTimeTokenService.create({
+            tokenHash: hashOneTimeToken(jti),
+            type: OneTimeTokenType.TWO_FACTOR_CHALLENGE,
+            userUUID: user.userUUID,
+            expiresAt: DateTime.local().plus({ seconds: this.config.challengeTokenLifetime }),
+        });
+        return token;
+    }
+
+    /**
+     * Verifies the given challenge token then resolves returning the UUID of the user it has been issued to.
+     * The token is not consumed.
+     * 
+     * @param challengeToken The challenge token to verify
+     */
+    async verifyChallengeToken(challengeToken: string): Promise<string> {
+        const claims = await this.verify(challengeToken, CHALLENGE_CLAIMS_VALIDATOR);
+        return claims.uuid;
+    }
+
+    /**
+     * Verifies then consumes the given challenge token, once the second factor has been checked.
+     * Resolves returning the UUID of the user it has been issued to.
+     * 
+     * @throws TOKEN_NOT_EXISTS (OneTimeTokenErrorType) if the challenge token has already been consumed
+     * 
+     * @param challengeToken The challenge token to consume
+     */
+    async consumeChallengeToken(challengeToken: string): Promise<string> {
+        const claims = await this.verify(challengeToken, CHALLENGE_CLAIMS_VALIDATOR);
+        const consumed = await this.oneTimeTokenService.consume(hashOneTimeToken(claims.jti), OneTimeTokenType.TWO_FACTOR_CHALLENGE);
+        if (consumed.userUUID !== claims.uuid) {
+            throw new Error('Challenge token does not belong to this user.');
+        }
+        return claims.uuid;
+    }
+
+    /**
+     * Exchanges the given refresh token for a new access token and a new refresh token.
+     * The given refresh token is revoked : each refresh token can only be used once. If an already
+     * used refresh token is presented, it's considered as stolen and all sessions of its owner are revoked.
+     * 
+     * @param refreshToken The refresh token to exchange
+     */
+    async refreshTokens(refreshToken: string): Promise<{ token: string, refreshToken: string }> {
+        const claims = await this.verifyRefreshToken(refreshToken);
+        const storedToken = await this.refreshTokenService.findByUUID(claims.jti);
+
+        if (storedToken.userUUID !== claims.uuid) {
+            throw new Error('Refresh token does not belong to this user.');
+        }
+
+        /* A token revoked by a concurrent exchange is a reuse too */
+        if (storedToken.revoked || !await this.refreshTokenService.revoke(storedToken.tokenUUID)) {
+            await this.revokeUserSessions(storedToken.userUUID);
+            throw new Error('Refresh token has already been used or revoked.');
+        }
+
+        const user = await this.usersService.findByUUID(storedToken.userUUID);
+        if (!isRegistered(user)) {
+            throw new Error('User has not finished its registration.');
+        }
+
+        return {
+            token: await this.generateToken(user),
+            refreshToken: await this.generateRefreshToken(user),
+        };
+    }
+
+    /**
+     * Revokes the given refresh token.
+     * 
+     * @param refreshToken The refresh token to revoke
+     */
+    async revokeRefreshToken(refreshToken: string): Promise<void> {
+        const claims = await this.verifyRefreshToken(refreshToken);
+        await this.refreshTokenService.revoke(claims.jti);
+    }
+
+    /**
+     * Revokes the given access token. Once revoked, the token is rejected by `verifyToken`.
+     * 
+     * @param token The access token to revoke
+     */
+    async revokeToken(token: string): Promise<void> {
+        const claims = await this.verify(token, ACCESS_CLAIMS_VALIDATOR);
+        await this.refreshTokenService.revokeAccessToken(claims.jti, DateTime.fromSeconds(claims.exp));
+    }
+
+    /**
+     * Revokes all sessions of the user with the given UUID : all its refresh tokens and all
+     * access tokens issued until now are revoked.
+     * 
+     * @param userUUID The UUID of the user to revoke sessions of
+     */
+    revokeUserSessions(userUUID: string): Promise<void> {
+        return this.refreshTokenService.revokeAllForUser(userUUID, DateTime.local());
+    }
+
+    /**
+     * Verifies the given access token is valid, has not been revoked and has been issued after the last renewal
+     * of the security stamp of its owner. If the token is valid, it resolves
      * returning the associated claims. If the token is invalid is reject returning
      * the error.
+     * API keys are also accepted (if an API keys service is given), their claims then hold the permissions of the key.
      * 
-     * @param token The token to verify
+     * @param token The token (or API key) to verify
      */
-    verifyToken(token: string): Promise<JWTClaims> {
+    async verifyToken(token: string): Promise<JWTClaims> {
+        if (token.startsWith(API_KEY_PREFIX)) {
+            return this.verifyApiKey(token);
+        }
+
+        const claims = await this.verify(token, ACCESS_CLAIMS_VALIDATOR);
+
+        const [revoked, revocationDate] = await Promise.all([
+            this.refreshTokenService.isAccessTokenRevoked(claims.jti),
+            this.refreshTokenService.findSessionsRevocationDate(claims.uuid),
+        ]);
+        if (revoked || (revocationDate && claims.iat < Math.floor(revocationDate.toSeconds()))) {
+            throw new Error('The given token has been revoked.');
+        }
+
+        /* Permissions and roles embedded in the token are stale once the security stamp of the user has been renewed */
+        if (await this.findSecurityStamp(claims.uuid) !== claims.security_stamp) {
+            throw new Error('The permissions of the user have changed since the token has been issued.');
+        }
+
+        /* Only roles UUIDs are embedded in the token, permissions given by roles are resolved on each verification */
+        const permissions = await this.resolvePermissions({
+            bdeUUID: claims.bde_uuid,
+            permissions: permissionsFromStrings(claims.permissions),
+            roles: claims.roles,
+        });
+
+        return {
+            bdeUUID: claims.bde_uuid, 
+            permissions,
+            firstname: claims.firstname,
+            lastname: claims.lastname,
+            uuid: claims.uuid,
+        };
+    }
+
+    /**
+     * Renews the security stamp of the user with the given UUID. Access tokens previously issued to this user
+     * are then rejected by `verifyToken` : it must be called each time the permissions or the roles of the user change.
+     * 
+     * @param userUUID The UUID of the user to renew security stamp of
+     */
+    async renewSecurityStamp(userUUID: string): Promise<void> {
+        await this.usersService.updateSecurityStamp(userUUID, uuid());
+        this.securityStamps.delete(userUUID);
+    }
+
+    /**
+     * Resolves the effective permissions of the given user : its own permissions and the ones given by its roles.
+     * 
+     * @param user The user to resolve permissions of
+     */
+    async resolvePermissions(user: { bdeUUID: string, permissions: Permission[], roles?: string[] }): Promise<Permission[]> {
+        const roles = user.roles && user.roles.length ? await this.rolesService.findByUUIDs(user.roles) : [];
+        return resolvePermissions(user, roles);
+    }
+
+    /**
+     * Hashes the given password.
+     * 
+     * @param rawPassword The plain password
+     */
+    hashPassword(rawPassword: string): Promise<string> {
+        return this.hashStrategy.hash(rawPassword);
+    }
+
+    /**
+     * Exports the public keys allowing to verify tokens as a JSON Web Key Set, to be published
+     * for services verifying tokens on their own. Only asymmetric keys are exported.
+     */
+    getJWKS(): { keys: JWK[] } {
+        return this.keyRing.toJWKS();
+    }
+
+    /**
+     * Verifies the given API key exists then resolves returning the associated claims.
+     * The last use date of the key is recorded.
+     * 
+     * @param key The API key to verify
+     */
+    private async verifyApiKey(key: string): Promise<JWTClaims> {
+        if (!this.apiKeysService) {
+            throw new Error('API keys are not supported.');
+        }
+
+        const apiKey = await this.apiKeysService.findByHash(hashOneTimeToken(key));
+        try {
+            await this.apiKeysService.updateLastUsed(apiKey.apiKeyUUID, DateTime.local());
+        } catch (_) {} // Failing to record the use of a key must not prevent from using it
+
+        /* Stored permissions may have been deserialized : permissions checks compare them by reference */
+        return {
+            uuid: apiKey.apiKeyUUID,
+            bdeUUID: apiKey.bdeUUID,
+            firstname: apiKey.name,
+            lastname: '',
+            permissions: permissionsFromStrings(apiKey.permissions.map((permission) => permission.name)),
+            apiKey: true,
+        };
+    }
+
+    /**
+     * Finds the current security stamp of the user with the given UUID. Security stamps are cached
+     * for the configured duration to avoid looking up the user on each token verification.
+     * 
+     * @param userUUID The user UUID
+     */
+    private async findSecurityStamp(userUUID: string): Promise<string> {
+        const cached = this.securityStamps.get(userUUID);
+        if (cached && cached.expiresAt > DateTime.local()) {
+            return cached.securityStamp;
+        }
+
+        const user = await this.usersService.findByUUID(userUUID);
+        const securityStamp = (<User>user).securityStamp || '';
+        if (this.config.securityStampCacheLifetime > 0) {
+            this.securityStamps.set(userUUID, {
+                securityStamp,
+                expiresAt: DateTime.local().plus({ seconds: this.config.securityStampCacheLifetime }),
+            });
+        }
+        return securityStamp;
+    }
+
+    /**
+     * Verifies the given refresh token signature and claims, then resolves returning its claims.
+     * 
+     * @param refreshToken The refresh token to verify
+     */
+    private async verifyRefreshToken(refreshToken: string): Promise<DecodedRefreshClaims> {
+        return this.verify(refreshToken, REFRESH_CLAIMS_VALIDATOR);
+    }
+
+    /**
+     * Signs the given claims.
+     * 
+     * @param claims The claims to sign
+     * @param options Additional signing options
+     */
+    private sign(claims: object, options: jwt.SignOptions): Promise<string> {
+        const key = this.keyRing.current();
         return new Promise((resolve, reject) => {
-            jwt.verify(token, JWT_SECRET, { algorithms: [JWT_ALGORITHM] }, (err, decoded) => {
+            const signOptions: jwt.SignOptions = {
+                ... options,
+                algorithm: key.algorithm,
+                keyid: key.kid,
+                issuer: this.config.jwtIssuer,
+                audience: this.config.jwtAudience,
+            };
+            jwt.sign(claims, key.privateKey!, signOptions, (err, token) => {
                 if (err) {
                     reject(err);
                 } else {
-                    const claims = <SerializedJWTClaims>decoded; // Note: This is not 100% safe
-                    resolve({
-                        bdeUUID: claims.bde_uuid, 
-                        permissions: permissionsFromStrings(claims.permissions),
-                        firstname: claims.firstname,
-                        lastname: claims.lastname,
-                        uuid: claims.uuid,
-                     });
+                    resolve(token!);
                 }
-            })
-        })
+            });
+        });
     }
 
     /**
-     * Hashes the given password.
+     * Verifies the signature, the expiration, the issuer and the audience of the given token then resolves returning
+     * its payload once checked by the given validator. The token must be signed by a key of the key ring
+     * (identified by the `kid` header), using the algorithm of this key.
      * 
-     * @param rawPassword The plain password
+     * @param token The token to verify
+     * @param validator The validator the decoded claims must satisfy
      */
-    hashPassword(rawPassword: string): Promise<string> {
-        return this.hashStrategy.hash(rawPassword);
+    private verify<T>(token: string, validator: Validator<T>): Promise<T> {
+        const decoded = <{ header: { kid?: string } } | null>jwt.decode(token, { complete: true });
+        if (!decoded) {
+            return Promise.reject(new Error('The given token is malformed.'));
+        }
+
+        /* Tokens issued before keys were identified have no kid and can only be verified by the current key */
+        const key = decoded.header.kid ? this.keyRing.find(decoded.header.kid) : this.keyRing.current();
+        if (!key) {
+            return Promise.reject(new Error('The given token has been signed by an unknown or retired key.'));
+        }
+
+        const verificationKey = key.algorithm === 'HS256' ? key.privateKey! : key.publicKey!;
+        return new Promise((resolve, reject) => {
+            const verifyOptions: jwt.VerifyOptions = {
+                algorithms: [key.algorithm],
+                issuer: this.config.jwtIssuer,
+                audience: this.config.jwtAudience,
+            };
+            jwt.verify(token, verificationKey, verifyOptions, (err, decoded) => {
+                if (err) {
+                    return reject(err);
+                }
+                const result = validator.validate(decoded!);
+                if (!result.valid) {
+                    return reject(new Error(`The given token has invalid claims. ${result.error.message}`));
+                }
+                resolve(result.value);
+            });
+        });
     }
 
 }
 
+/**
+ * Checks whether or not the given user has finished its registration.
+ * 
+ * @param user The user to check
+ */
+function isRegistered(user: User | UnregisteredUser): user is User {
+    return (<User>user).password !== undefined;
+}
+
 /**
  * JWT claims sent to client and expected to be received once token decoded.
  */
@@ -114,6 +491,8 @@ export interface JWTClaims {
     firstname: string,
     lastname: string;
     permissions: Permission[],
+    /** Whether or not the claims come from an API key rather than from an user token */
+    apiKey?: boolean,
 }
 
 interface SerializedJWTClaims {
@@ -122,4 +501,34 @@ interface SerializedJWTClaims {
     firstname: string,
     lastname: string,
     permissions: string[],
-}
\ No newline at end of file
+    roles: string[],
+    security_stamp: string,
+    token_type: 'access',
+}
+
+interface SerializedRefreshClaims {
+    uuid: string,
+    token_type: 'refresh',
+}
+
+interface SerializedChallengeClaims {
+    uuid: string,
+    token_type: 'challenge',
+}
+
+/**
+ * Registered claims added to each token when signing it.
+ */
+interface RegisteredClaims {
+    jti: string,
+    iat: number,
+    exp: number,
+    iss: string,
+    aud: string,
+}
+
+type DecodedJWTClaims = SerializedJWTClaims & RegisteredClaims;
+
+type DecodedRefreshClaims = SerializedRefreshClaims & RegisteredClaims;
+
+type DecodedChallengeClaims = SerializedChallengeClaims & RegisteredClaims;
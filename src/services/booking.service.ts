@@ -5,7 +5,8 @@ export enum BookingsErrorType {
     USER_NOT_EXISTS,
     BOOKING_NOT_EXISTS,
     BOOKING_ALREADY_EXISTS,
-    INTERNAL
+    INTERNAL,
+    EVENT_FULL,
 };
 
 export interface PartialUser {
@@ -24,14 +25,46 @@ export interface BookingsService {
     /**
      * Creates the given booking.
      * 
+     * If the booked event has a capacity and its number of confirmed bookings already reached it, the booking
+     * is created in WAITING state if the waiting list is allowed, otherwise the creation is rejected.
+     * Counting confirmed bookings and creating the booking must be performed atomically so the capacity
+     * can't be exceeded by concurrent bookings.
+     * 
      * @param booking The booking to create
+     * @param allowWaitingList Whether or not the booking can be put on the waiting list if the event is full
      * 
+     * @returns the created booking with its resolved state
      * @throws BOOKING_ALREADY_EXISTS if a booking for the given event by the given user already exists
      * @throws EVENT_NOT_EXISTS if no event with the given UUID exists
      * @throws USER_NOT_EXISTS if no user with the given UUID exists
+     * @throws EVENT_FULL if the event is full and the waiting list is not allowed
+     * @throws INTERNAL in any other case
+     */
+    create(booking: Booking, allowWaitingList: boolean): Promise<Booking>;
+
+    /**
+     * Confirms the oldest WAITING booking of the event with the given UUID if a seat is available.
+     * Checking available seats and confirming the booking must be performed atomically.
+     * This must be called each time a confirmed booking is cancelled.
+     * 
+     * @param eventUUID The UUID of the event to promote a waiting booking of
+     * 
+     * @returns the promoted booking, or null if no seat is available or no booking is waiting
+     * @throws INTERNAL in any case of failure
+     */
+    promoteWaitingBooking(eventUUID: string): Promise<Booking | null>;
+
+    /**
+     * Deletes the booking of the user with the given UUID for the event with the given UUID.
+     * 
+     * @param userUUID The user UUID
+     * @param eventUUID The event UUID
+     * 
+     * @returns the deleted booking
+     * @throws BOOKING_NOT_EXISTS if no booking matching the request exists
      * @throws INTERNAL in any other case
      */
-    create(booking: Booking): Promise<Booking>;
+    delete(userUUID: string, eventUUID: string): Promise<Booking>;
 
     /**
      * Finds the booking of the user with the given UUID for the event with the given UUID.
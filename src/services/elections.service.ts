@@ -0,0 +1,84 @@
+import { Election } from '../models';
+
+/**
+ * Types of error that can the thrown by ElectionsService.
+ */
+export enum ElectionsErrorType {
+    INTERNAL,
+    ELECTION_NOT_EXISTS,
+    BDE_NOT_EXISTS,
+}
+
+/**
+ * Elections access service.
+ */
+export interface ElectionsService {
+
+    /**
+     * Creates the given election.
+     * 
+     * @param election The election to create
+     * 
+     * @returns the election if creation is a success
+     * @throws BDE_NOT_EXISTS error if no BDE with the bde UUID of the given election exists
+     * @throws INTERNAL error in any other case
+     */
+    create(election: Election): Promise<Election>;
+
+    /**
+     * Updates the given election.
+     * 
+     * @param election The new value for the election
+     * 
+     * @returns the updated election if the update is a success
+     * @throws ELECTION_NOT_EXISTS error if no election with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    update(election: Election): Promise<Election>;
+
+    /**
+     * Deletes the election with the given UUID along with its votes.
+     * 
+     * @param uuid The election UUID
+     * 
+     * @returns the deleted election if deletion is a success
+     * @throws ELECTION_NOT_EXISTS error if no election with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    delete(uuid: string): Promise<Election>;
+
+    /**
+     * Finds the election with the given UUID.
+     * 
+     * @param uuid The election UUID
+     * 
+     * @returns the election with the given UUID if found
+     * @throws ELECTION_NOT_EXISTS error if no election with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    findByUUID(uuid: string): Promise<Election>;
+
+    /**
+     * Finds all elections organized by the BDE with the given UUID.
+     * 
+     * Note: in the case of an unknown BDE UUID, just return an empty array
+     * 
+     * @param bdeUUID The BDE UUID
+     * 
+     * @returns an array of elections if search is a success
+     * @throws INTERNAL error in any case of failure
+     */
+    findByBDE(bdeUUID: string): Promise<Election[]>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class ElectionsServiceError extends Error {
+
+    constructor(message: string, public type: ElectionsErrorType) {
+        super(message);
+    }
+
+}
@@ -0,0 +1,51 @@
+import { ExternalIdentity } from '../models';
+
+/**
+ * Types of error that can be thrown by ExternalIdentitiesService.
+ */
+export enum ExternalIdentitiesErrorType {
+    INTERNAL,
+    IDENTITY_NOT_EXISTS,
+    IDENTITY_ALREADY_EXISTS,
+}
+
+/**
+ * External identities (links between identity providers accounts and users) access service.
+ */
+export interface ExternalIdentitiesService {
+
+    /**
+     * Creates the given external identity.
+     * 
+     * @param identity The external identity to create
+     * 
+     * @returns the external identity if creation is a success
+     * @throws IDENTITY_ALREADY_EXISTS error if the account of the identity provider is already linked
+     * @throws INTERNAL error in any other case
+     */
+    create(identity: ExternalIdentity): Promise<ExternalIdentity>;
+
+    /**
+     * Finds the external identity matching the given account of the given identity provider.
+     * 
+     * @param provider The identifier of the identity provider
+     * @param subject The identifier of the account within the identity provider
+     * 
+     * @returns the external identity if found
+     * @throws IDENTITY_NOT_EXISTS error if the account is not linked to any user
+     * @throws INTERNAL error in any other case
+     */
+    findBySubject(provider: string, subject: string): Promise<ExternalIdentity>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class ExternalIdentitiesServiceError extends Error {
+
+    constructor(message: string, public type: ExternalIdentitiesErrorType) {
+        super(message);
+    }
+
+}
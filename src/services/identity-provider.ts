@@ -0,0 +1,47 @@
+/**
+ * Identity of an user authenticated by an external identity provider.
+ */
+export interface AuthenticatedIdentity {
+
+    /** Identifier of the identity provider */
+    provider: string;
+
+    /** Identifier of the account within the identity provider */
+    subject: string;
+
+    /** Email of the account (lower case) */
+    email: string;
+
+    /** Whether or not the identity provider has verified the email */
+    emailVerified: boolean;
+
+}
+
+/**
+ * External identity provider (university single sign-on for example) authenticating users
+ * through a redirection-based flow.
+ */
+export interface IdentityProvider {
+
+    /** Unique identifier of the provider */
+    readonly id: string;
+
+    /**
+     * Builds the URL the user must be redirected to in order to authenticate.
+     * 
+     * @param state The opaque value the provider must send back along with the authorization code
+     * @param nonce The value the provider must bind to the authentication
+     */
+    authorizationUrl(state: string, nonce: string): Promise<string>;
+
+    /**
+     * Exchanges the authorization code the user has been redirected back with for its identity.
+     * 
+     * @throws an error if the code is invalid or the authentication is not bound to the given nonce
+     * 
+     * @param code The authorization code
+     * @param nonce The nonce given when building the authorization URL
+     */
+    exchangeCode(code: string, nonce: string): Promise<AuthenticatedIdentity>;
+
+}
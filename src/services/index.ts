@@ -5,4 +5,14 @@ export * from './users.service';
 export * from './auth.service';
 export * from './mailing.service';
 export * from './logging.service';
-export * from './vote.service';
\ No newline at end of file
+export * from './vote.service';
+export * from './refresh-token.service';
+export * from './one-time-token.service';
+export * from './elections.service';
+export * from './roles.service';
+export * from './attempt-store';
+export * from './login-throttler';
+export * from './api-keys.service';
+export * from './external-identities.service';
+export * from './identity-provider';
+export * from './oidc-identity-provider';
\ No newline at end of file
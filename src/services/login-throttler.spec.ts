@@ -0,0 +1,95 @@
+import chai from 'chai';
+import { DateTime } from 'luxon';
+import { LoginThrottler } from './login-throttler';
+import { InMemoryAttemptStore } from './attempt-store';
+
+const { expect } = chai;
+
+describe('Login throttler', () => {
+
+    let store: InMemoryAttemptStore;
+    let throttler: LoginThrottler;
+
+    beforeEach(() => {
+        store = new InMemoryAttemptStore();
+        throttler = new LoginThrottler(store, { maxFailuresPerEmail: 3, maxFailuresPerIp: 5, baseDelay: 10, lockoutDuration: 600 });
+    });
+
+    it('should allow attempts when no failure were recorded', async () => {
+        expect(await throttler.retryAfter('email@provider.tld', '127.0.0.1')).to.eq(0);
+    });
+
+    /* Reserves then fails a login attempt, the delay since the previous failure is skipped */
+    async function fail(email: string, ip?: string) {
+        const attempts = await store.get(`email:${email.toLowerCase()}`);
+        if (attempts) {
+            await store.set(`email:${email.toLowerCase()}`, { ... attempts, lastFailure: DateTime.local().minus({ hours: 1 }) }, DateTime.local().plus({ hours: 1 }));
+        }
+        expect(await throttler.reserve(email, ip)).to.eq(0);
+        await throttler.recordFailure(email, ip);
+    }
+
+    it('should double the delay after each failure', async () => {
+        await fail('email@provider.tld');
+        expect(await throttler.retryAfter('email@provider.tld')).to.be.within(9, 10);
+
+        await fail('email@provider.tld');
+        expect(await throttler.retryAfter('email@provider.tld')).to.be.within(19, 20);
+    });
+
+    it('should refuse to reserve an attempt before the delay is elapsed', async () => {
+        await fail('email@provider.tld');
+
+        expect(await throttler.reserve('email@provider.tld')).to.be.within(9, 10);
+    });
+
+    it('should only allow one of concurrent attempts', async () => {
+        const waits = await Promise.all([1, 2, 3].map(() => throttler.reserve('email@provider.tld')));
+
+        expect(waits.filter((wait) => wait === 0)).to.have.length(1);
+        expect((await store.get('email:email@provider.tld'))!.failures).to.eq(3);
+    });
+
+    it('should not lose concurrent failures', async () => {
+        await Promise.all([1, 2, 3, 4, 5].map((i) => throttler.recordFailure(`email-${i}@provider.tld`, '127.0.0.1')));
+
+        expect((await store.get('ip:127.0.0.1'))!.failures).to.eq(5);
+        expect(await throttler.retryAfter('other-email@provider.tld', '127.0.0.1')).to.be.within(599, 600);
+    });
+
+    it('should allow attempts once the delay is elapsed', async () => {
+        await store.set('email:email@provider.tld', { failures: 1, lastFailure: DateTime.local().minus({ seconds: 11 }) }, DateTime.local().plus({ hours: 1 }));
+
+        expect(await throttler.retryAfter('email@provider.tld')).to.eq(0);
+    });
+
+    it('should lock the email after too many failures', async () => {
+        for (let i = 0; i < 3; i++) {
+            await fail('Email@provider.tld');
+        }
+
+        expect(await throttler.retryAfter('email@provider.tld')).to.be.within(599, 600);
+    });
+
+    it('should throttle attempts from an IP address for any email', async () => {
+        for (let i = 0; i < 5; i++) {
+            await throttler.recordFailure(`email-${i}@provider.tld`, '127.0.0.1');
+        }
+
+        expect(await throttler.retryAfter('other-email@provider.tld', '127.0.0.1')).to.be.within(599, 600);
+        expect(await throttler.retryAfter('other-email@provider.tld', '127.0.0.2')).to.eq(0);
+    });
+
+    it('should forget email failures after a success or an unlock', async () => {
+        await fail('email@provider.tld');
+        await throttler.recordSuccess('email@provider.tld');
+        expect(await throttler.retryAfter('email@provider.tld')).to.eq(0);
+
+        for (let i = 0; i < 3; i++) {
+            await fail('email@provider.tld');
+        }
+        await throttler.unlock('email@provider.tld');
+        expect(await throttler.retryAfter('email@provider.tld')).to.eq(0);
+    });
+
+});
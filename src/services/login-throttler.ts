@@ -0,0 +1,161 @@
+import { DateTime } from 'luxon';
+import { AttemptStore, InMemoryAttemptStore } from './attempt-store';
+import { LoginAttempts } from '../models';
+
+/**
+ * Options of the login throttler. Durations are in seconds.
+ */
+export interface LoginThrottlerOptions {
+
+    /** Number of consecutive failures for an email after which the account is locked */
+    maxFailuresPerEmail: number;
+
+    /** Number of consecutive failures from an IP address after which this address is locked */
+    maxFailuresPerIp: number;
+
+    /** Delay required after the first failure, doubled after each new failure */
+    baseDelay: number;
+
+    /** Maximum delay required between two attempts */
+    maxDelay: number;
+
+    /** Duration of a lockout */
+    lockoutDuration: number;
+
+    /** Duration after which failures are forgotten */
+    failuresLifetime: number;
+
+}
+
+const DEFAULT_OPTIONS: LoginThrottlerOptions = {
+    maxFailuresPerEmail: 5,
+    maxFailuresPerIp: 50,
+    baseDelay: 1,
+    maxDelay: 5 * 60,
+    lockoutDuration: 15 * 60,
+    failuresLifetime: 60 * 60,
+};
+
+/**
+ * Tracks failed login attempts per email and per IP address to slow down brute-force attacks.
+ * After each failure, the next attempt is delayed (exponential backoff). After too many failures,
+ * the email or the IP address is locked for a while.
+ * Attempts must be reserved (see `reserve`) before checking the credentials.
+ */
+export class LoginThrottler {
+
+    private options: LoginThrottlerOptions;
+
+    constructor(private store: AttemptStore = new InMemoryAttemptStore(), options: Partial<LoginThrottlerOptions> = {}) {
+        this.options = { ... DEFAULT_OPTIONS, ... options };
+    }
+
+    /**
+     * Checks whether or not a login attempt for the given email from the given IP address is currently allowed.
+     *
+     * @returns the number of seconds to wait before trying again, or 0 if the attempt is allowed
+     *
+     * @param email The email used to log in
+     * @param ip The IP address the attempt comes from
+     */
+    async retryAfter(email: string, ip?: string): Promise<number> {
+        const now = DateTime.local();
+        let wait = await this.waitFor(this.emailKey(email), this.options.maxFailuresPerEmail, now);
+        if (ip) {
+            wait = Math.max(wait, await this.waitFor(this.ipKey(ip), this.options.maxFailuresPerIp, now));
+        }
+        return wait;
+    }
+
+    /**
+     * Reserves a login attempt for the given email from the given IP address before the credentials are checked.
+     * The attempt is counted as a failure for the email right away, so that concurrent attempts can't all pass the check :
+     * only the first one is allowed, the others are refused and remain counted as failures.
+     * Once the credentials are checked, either `recordSuccess` or `recordFailure` must be called.
+     *
+     * @returns the number of seconds to wait before trying again, or 0 if the attempt is allowed
+     *
+     * @param email The email used to log in
+     * @param ip The IP address the attempt comes from
+     */
+    async reserve(email: string, ip?: string): Promise<number> {
+        const key = this.emailKey(email);
+        const previous = await this.store.get(key);
+        const wait = await this.retryAfter(email, ip);
+        if (wait > 0) {
+            return wait;
+        }
+
+        const now = DateTime.local();
+        const failures = await this.store.increment(key, now, this.expiresAt(now));
+        if (failures !== (previous ? previous.failures : 0) + 1) {
+            /* An other attempt has been reserved in the meantime */
+            return Math.max(1, this.wait({ failures, lastFailure: now }, this.options.maxFailuresPerEmail, now));
+        }
+        return 0;
+    }
+
+    /**
+     * Records that a reserved login attempt for the given email from the given IP address failed.
+     * The failure has already been counted for the email when reserving the attempt, it is counted for the IP address.
+     *
+     * @param email The email used to log in
+     * @param ip The IP address the attempt comes from
+     */
+    async recordFailure(email: string, ip?: string): Promise<void> {
+        if (ip) {
+            const now = DateTime.local();
+            await this.store.increment(this.ipKey(ip), now, this.expiresAt(now));
+        }
+    }
+
+    /**
+     * Records a successful login for the given email : failures recorded for this email are forgotten.
+     * Failures recorded for the IP address are kept as an attacker could own a valid account.
+     *
+     * @param email The email used to log in
+     */
+    recordSuccess(email: string): Promise<void> {
+        return this.store.delete(this.emailKey(email));
+    }
+
+    /**
+     * Unlocks the account with the given email by forgetting all failures recorded for it.
+     *
+     * @param email The email of the account to unlock
+     */
+    unlock(email: string): Promise<void> {
+        return this.store.delete(this.emailKey(email));
+    }
+
+    private async waitFor(key: string, maxFailures: number, now: DateTime): Promise<number> {
+        const attempts = await this.store.get(key);
+        return attempts ? this.wait(attempts, maxFailures, now) : 0;
+    }
+
+    /**
+     * Computes the number of seconds to wait before the next attempt. The lockout is derived from the number of failures
+     * so that it can't be missed when failures are recorded concurrently.
+     */
+    private wait(attempts: LoginAttempts, maxFailures: number, now: DateTime): number {
+        const delay = attempts.failures >= maxFailures ? this.options.lockoutDuration : this.delay(attempts.failures);
+        return Math.max(0, Math.ceil(attempts.lastFailure.plus({ seconds: delay }).diff(now).as('seconds')));
+    }
+
+    private expiresAt(now: DateTime): DateTime {
+        return now.plus({ seconds: Math.max(this.options.failuresLifetime, this.options.lockoutDuration) });
+    }
+
+    private delay(failures: number): number {
+        return Math.min(this.options.baseDelay * Math.pow(2, failures - 1), this.options.maxDelay);
+    }
+
+    private emailKey(email: string): string {
+        return `email:${email.toLowerCase()}`;
+    }
+
+    private ipKey(ip: string): string {
+        return `ip:${ip}`;
+    }
+
+}
@@ -1,7 +1,48 @@
-import { UnregisteredUser } from "../models";
+import { UnregisteredUser, User, Event } from "../models";
 
 export interface MailingService {
 
     sendRegistrationMail(user: UnregisteredUser): Promise<void>;
 
-}
\ No newline at end of file
+    /**
+     * Sends to the given user a mail containing a link allowing to reset its password.
+     * 
+     * @param user The user who requested a password reset
+     * @param token The one-time token to include in the link
+     */
+    sendPasswordResetMail(user: User, token: string): Promise<void>;
+
+    /**
+     * Sends to the given user a mail containing a single-use link allowing to log in without password.
+     * 
+     * @param user The user who requested a login link
+     * @param token The one-time token to include in the link
+     */
+    sendMagicLinkMail(user: User, token: string): Promise<void>;
+
+    /**
+     * Notifies the given user that its booking for the given event has been cancelled by an administrator.
+     * 
+     * @param user The user whose booking has been cancelled
+     * @param event The event the booking was for
+     */
+    sendBookingCancellationMail(user: User | UnregisteredUser, event: Event): Promise<void>;
+
+    /**
+     * Sends to the given new email address a mail containing a code allowing to confirm the email change of the given user.
+     * 
+     * @param user The user who requested an email change
+     * @param newEmail The requested new email, the mail must be sent to this address
+     * @param token The one-time token to include in the mail
+     */
+    sendEmailChangeMail(user: User, newEmail: string, token: string): Promise<void>;
+
+    /**
+     * Notifies the given user, on its previous email address, that its email has been changed.
+     * 
+     * @param user The user whose email has been changed (holding its previous email)
+     * @param newEmail The new email of the user
+     */
+    sendEmailChangedNoticeMail(user: User, newEmail: string): Promise<void>;
+
+}
@@ -0,0 +1,181 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { parse } from 'querystring';
+import { URL } from 'url';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcIdentityProvider } from './oidc-identity-provider';
+import { KeyRing, SigningKey } from '../utils/key-ring';
+
+chai.use(chaiAsPromised);
+
+const { expect } = chai;
+
+function rsaKey(kid: string): SigningKey {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    return { kid, algorithm: 'RS256', publicKey, privateKey };
+}
+
+describe('OpenID Connect identity provider (IT)', () => {
+
+    const issuerKey = rsaKey('issuer-key');
+    const unknownKey = rsaKey('unknown-key');
+
+    let server: http.Server;
+    let issuer: string;
+
+    /* Claims and key used by the mock issuer to sign the ID token returned by its token endpoint */
+    let idTokenClaims: { [claim: string]: any };
+    let signingKey: SigningKey;
+    /* JWKS published by the mock issuer */
+    let jwks: object;
+
+    before((done) => {
+        server = http.createServer((request, response) => {
+            const reply = (status: number, body: object) => {
+                response.writeHead(status, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify(body));
+            };
+
+            if (request.url === '/.well-known/openid-configuration') {
+                return reply(200, {
+                    issuer,
+                    authorization_endpoint: `${issuer}/authorize`,
+                    token_endpoint: `${issuer}/token`,
+                    jwks_uri: `${issuer}/jwks`,
+                });
+            }
+            if (request.url === '/jwks') {
+                return reply(200, jwks);
+            }
+            if (request.url === '/token' && request.method === 'POST') {
+                let body = '';
+                request.on('data', (chunk) => body += chunk);
+                request.on('end', () => {
+                    const form = parse(body);
+                    const credentials = Buffer.from('the-client:the-secret').toString('base64');
+                    if (request.headers.authorization !== `Basic ${credentials}` || form.code !== 'the-code' || form.grant_type !== 'authorization_code') {
+                        return reply(400, { error: 'invalid_grant' });
+                    }
+                    const idToken = jwt.sign(idTokenClaims, signingKey.privateKey!, { algorithm: 'RS256', keyid: signingKey.kid });
+                    reply(200, { access_token: 'the-access-token', token_type: 'Bearer', id_token: idToken });
+                });
+                return;
+            }
+            reply(404, { error: 'not_found' });
+        });
+        server.listen(0, '127.0.0.1', () => {
+            issuer = `http://127.0.0.1:${(<AddressInfo>server.address()).port}`;
+            done();
+        });
+    });
+
+    after((done) => {
+        server.close(() => done());
+    });
+
+    beforeEach(() => {
+        const now = Math.floor(Date.now() / 1000);
+        signingKey = issuerKey;
+        jwks = new KeyRing([issuerKey], issuerKey.kid).toJWKS();
+        idTokenClaims = {
+            iss: issuer,
+            aud: 'the-client',
+            sub: 'the-subject',
+            email: 'John.Doe@example.com',
+            email_verified: true,
+            nonce: 'the-nonce',
+            iat: now,
+            exp: now + 60,
+        };
+    });
+
+    const provider = () => new OidcIdentityProvider({
+        id: 'university',
+        issuer,
+        clientId: 'the-client',
+        clientSecret: 'the-secret',
+        redirectUri: 'https://example.com/callback',
+    });
+
+    it('should build the authorization URL from the discovery document', async () => {
+        const url = new URL(await provider().authorizationUrl('the-state', 'the-nonce'));
+
+        expect(`${url.origin}${url.pathname}`).to.eq(`${issuer}/authorize`);
+        expect(url.searchParams.get('response_type')).to.eq('code');
+        expect(url.searchParams.get('client_id')).to.eq('the-client');
+        expect(url.searchParams.get('redirect_uri')).to.eq('https://example.com/callback');
+        expect(url.searchParams.get('scope')).to.eq('openid email');
+        expect(url.searchParams.get('state')).to.eq('the-state');
+        expect(url.searchParams.get('nonce')).to.eq('the-nonce');
+    });
+
+    it('should exchange the code for the identity of the user', async () => {
+        const identity = await provider().exchangeCode('the-code', 'the-nonce');
+
+        expect(identity).to.deep.eq({
+            provider: 'university',
+            subject: 'the-subject',
+            email: 'john.doe@example.com',
+            emailVerified: true,
+        });
+    });
+
+    it('should reject an invalid code', async () => {
+        await expect(provider().exchangeCode('wrong-code', 'the-nonce')).to.be.rejectedWith(Error, 'status 400');
+    });
+
+    it('should reject an ID token bound to an other nonce', async () => {
+        await expect(provider().exchangeCode('the-code', 'other-nonce')).to.be.rejectedWith(Error, 'nonce');
+    });
+
+    it('should reject an ID token issued for an other client', async () => {
+        idTokenClaims.aud = 'other-client';
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'audience');
+    });
+
+    it('should reject an ID token issued by an other issuer', async () => {
+        idTokenClaims.iss = 'https://other-issuer.example.com';
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'issuer');
+    });
+
+    it('should reject an expired ID token', async () => {
+        idTokenClaims.iat -= 120;
+        idTokenClaims.exp -= 120;
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'expired');
+    });
+
+    it('should reject an ID token signed by an unknown key', async () => {
+        signingKey = unknownKey;
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'Unable to find the key');
+    });
+
+    it('should reject if the published JWKS is invalid', async () => {
+        jwks = { keys: [{ kid: 'issuer-key', n: 'modulus' }] };
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'Invalid JWKS');
+    });
+
+    it('should reject an ID token without email', async () => {
+        delete idTokenClaims.email;
+        await expect(provider().exchangeCode('the-code', 'the-nonce')).to.be.rejectedWith(Error, 'invalid claims');
+    });
+
+    it('should reject if the discovery document can not be fetched', async () => {
+        const misconfigured = new OidcIdentityProvider({
+            id: 'university',
+            issuer: `${issuer}/other`,
+            clientId: 'the-client',
+            clientSecret: 'the-secret',
+            redirectUri: 'https://example.com/callback',
+        });
+
+        await expect(misconfigured.authorizationUrl('the-state', 'the-nonce')).to.be.rejectedWith(Error);
+    });
+
+});
@@ -0,0 +1,286 @@
+import { IdentityProvider, AuthenticatedIdentity } from './identity-provider';
+import { ValidatorBuilder } from '../validation';
+import { publicKeyFromJWK } from '../utils/key-ring';
+import http from 'http';
+import https from 'https';
+import { URL } from 'url';
+import { stringify } from 'querystring';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Timeout of the requests sent to the identity provider (in milliseconds).
+ */
+const REQUEST_TIMEOUT = 10 * 1000;
+
+/**
+ * Algorithms accepted for ID tokens. HS256 tokens are signed using the client secret.
+ */
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256', 'HS256'];
+
+/**
+ * Options of an OpenID Connect identity provider.
+ */
+export interface OidcProviderOptions {
+
+    /** Unique identifier of the provider */
+    id: string;
+
+    /** Issuer URL, the discovery document is fetched from `<issuer>/.well-known/openid-configuration` */
+    issuer: string;
+
+    /** Client identifier registered with the provider */
+    clientId: string;
+
+    /** Client secret registered with the provider */
+    clientSecret: string;
+
+    /** URL the provider redirects users to once authenticated */
+    redirectUri: string;
+
+    /** Requested scopes (defaults to `openid email`) */
+    scopes?: string[];
+
+}
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+interface IdTokenClaims {
+    sub: string;
+    email: string;
+    email_verified?: boolean;
+    nonce: string;
+    iat: number;
+    exp: number;
+}
+
+interface JsonWebKey {
+    kid?: string;
+    kty: string;
+    use?: string;
+    n?: string;
+    e?: string;
+    crv?: string;
+    x?: string;
+    y?: string;
+}
+
+const DISCOVERY_VALIDATOR = ValidatorBuilder.new<DiscoveryDocument>()
+    .requires('issuer').toBeString()
+    .requires('authorization_endpoint').toBeString().withMinLength(1)
+    .requires('token_endpoint').toBeString().withMinLength(1)
+    .requires('jwks_uri').toBeString().withMinLength(1)
+    .build();
+
+const JWK_VALIDATOR = ValidatorBuilder.new<JsonWebKey>()
+    .optional('kid').toBeString()
+    .requires('kty').toBeString().withMinLength(1)
+    .optional('use').toBeString()
+    .optional('n').toBeString()
+    .optional('e').toBeString()
+    .optional('crv').toBeString()
+    .optional('x').toBeString()
+    .optional('y').toBeString()
+    .build();
+
+const JWKS_VALIDATOR = ValidatorBuilder.new<{ keys: JsonWebKey[] }>()
+    .requires('keys').toBeArray().withEachElementValidating(JWK_VALIDATOR)
+    .build();
+
+const TOKEN_RESPONSE_VALIDATOR = ValidatorBuilder.new<{ id_token: string }>()
+    .requires('id_token').toBeString().withMinLength(1)
+    .build();
+
+const ID_TOKEN_CLAIMS_VALIDATOR = ValidatorBuilder.new<IdTokenClaims>()
+    .requires('sub').toBeString().withMinLength(1)
+    .requires('email').toBeString().withMinLength(1)
+    .optional('email_verified').toBeBoolean()
+    .requires('nonce').toBeString()
+    .requires('iat').toBeInteger()
+    .requires('exp').toBeInteger()
+    .build();
+
+/**
+ * Identity provider implementing the OpenID Connect authorization code flow.
+ * The ID token returned by the token endpoint is checked : signature (using the keys published by the provider),
+ * issuer, audience, expiration and nonce.
+ */
+export class OidcIdentityProvider implements IdentityProvider {
+
+    readonly id: string;
+    private discovery?: Promise<DiscoveryDocument>;
+    private keys: JsonWebKey[] = [];
+
+    constructor(private options: OidcProviderOptions) {
+        this.id = options.id;
+    }
+
+    async authorizationUrl(state: string, nonce: string): Promise<string> {
+        const discovery = await this.discover();
+        const url = new URL(discovery.authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', this.options.clientId);
+        url.searchParams.set('redirect_uri', this.options.redirectUri);
+        url.searchParams.set('scope', (this.options.scopes || ['openid', 'email']).join(' '));
+        url.searchParams.set('state', state);
+        url.searchParams.set('nonce', nonce);
+        return url.toString();
+    }
+
+    async exchangeCode(code: string, nonce: string): Promise<AuthenticatedIdentity> {
+        const discovery = await this.discover();
+        const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret)}`;
+        const response = await requestJson(discovery.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Basic ${Buffer.from(credentials).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: stringify({ grant_type: 'authorization_code', code, redirect_uri: this.options.redirectUri }),
+        });
+
+        const result = TOKEN_RESPONSE_VALIDATOR.validate(<object | null>response);
+        if (!result.valid) {
+            throw new Error(`Invalid token response. ${result.error.message}`);
+        }
+
+        const claims = await this.verifyIdToken(result.value.id_token, discovery);
+        if (claims.nonce !== nonce) {
+            throw new Error('The ID token is not bound to the given nonce.');
+        }
+
+        return {
+            provider: this.id,
+            subject: claims.sub,
+            email: claims.email.toLowerCase(),
+            emailVerified: claims.email_verified === true,
+        };
+    }
+
+    /**
+     * Fetches the discovery document of the provider. The document is only fetched once, unless fetching it fails.
+     */
+    private discover(): Promise<DiscoveryDocument> {
+        if (!this.discovery) {
+            const issuer = this.options.issuer.replace(/\/+$/, '');
+            this.discovery = requestJson(`${issuer}/.well-known/openid-configuration`).then((document) => {
+                const result = DISCOVERY_VALIDATOR.validate(<object | null>document);
+                if (!result.valid) {
+                    throw new Error(`Invalid discovery document. ${result.error.message}`);
+                }
+                if (result.value.issuer !== this.options.issuer) {
+                    throw new Error(`The discovery document has been issued by ${result.value.issuer} instead of ${this.options.issuer}.`);
+                }
+                return result.value;
+            });
+            this.discovery.catch(() => this.discovery = undefined);
+        }
+        return this.discovery;
+    }
+
+    /**
+     * Finds the PEM encoded public key with the given identifier. The keys of the provider are fetched again
+     * if the key is unknown, as the provider may have rotated its keys.
+     *
+     * @param discovery The discovery document of the provider
+     * @param kid The key identifier (optional if the provider only publishes one key)
+     */
+    private async findPublicKey(discovery: DiscoveryDocument, kid?: string): Promise<string> {
+        const find = () => this.keys.filter((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'));
+
+        let candidates = find();
+        if (candidates.length !== 1) {
+            const result = JWKS_VALIDATOR.validate(<object | null>await requestJson(discovery.jwks_uri));
+            if (!result.valid) {
+                throw new Error(`Invalid JWKS. ${result.error.message}`);
+            }
+            this.keys = result.value.keys;
+            candidates = find();
+        }
+        if (candidates.length !== 1) {
+            throw new Error('Unable to find the key the ID token has been signed with.');
+        }
+        return publicKeyFromJWK(candidates[0]);
+    }
+
+    /**
+     * Verifies the signature, the issuer, the audience and the expiration of the given ID token
+     * then resolves returning its claims.
+     *
+     * @param idToken The ID token to verify
+     * @param discovery The discovery document of the provider
+     */
+    private async verifyIdToken(idToken: string, discovery: DiscoveryDocument): Promise<IdTokenClaims> {
+        const decoded = <{ header: { alg?: string, kid?: string } } | null>jwt.decode(idToken, { complete: true });
+        if (!decoded || !decoded.header.alg || !ID_TOKEN_ALGORITHMS.includes(decoded.header.alg)) {
+            throw new Error('The ID token is malformed or signed using an unsupported algorithm.');
+        }
+
+        const algorithm = <jwt.Algorithm>decoded.header.alg;
+        const key = algorithm === 'HS256' ? this.options.clientSecret : await this.findPublicKey(discovery, decoded.header.kid);
+        const payload = await new Promise<object>((resolve, reject) => {
+            const verifyOptions: jwt.VerifyOptions = {
+                algorithms: [algorithm],
+                issuer: discovery.issuer,
+                audience: this.options.clientId,
+            };
+            jwt.verify(idToken, key, verifyOptions, (err, decoded) => err ? reject(err) : resolve(decoded!));
+        });
+
+        const result = ID_TOKEN_CLAIMS_VALIDATOR.validate(payload);
+        if (!result.valid) {
+            throw new Error(`The ID token has invalid claims. ${result.error.message}`);
+        }
+        return result.value;
+    }
+
+}
+
+/**
+ * Sends a request to the given URL and resolves returning the parsed JSON response.
+ *
+ * @throws an error if the request fails or if the response status is not a success
+ *
+ * @param url The URL to send the request to
+ * @param options The request method, headers and body
+ */
+function requestJson(url: string, options: { method?: string, headers?: { [name: string]: string }, body?: string } = {}): Promise<unknown> {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const request = client.request({
+            protocol: target.protocol,
+            hostname: target.hostname,
+            port: target.port,
+            path: `${target.pathname}${target.search}`,
+            method: options.method || 'GET',
+            headers: { 'Accept': 'application/json', ... options.headers },
+            timeout: REQUEST_TIMEOUT,
+        }, (response) => {
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => {
+                const status = response.statusCode || 0;
+                if (status < 200 || status >= 300) {
+                    return reject(new Error(`Request to ${url} failed with status ${status}.`));
+                }
+                try {
+                    resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+                } catch (_) {
+                    reject(new Error(`Request to ${url} returned an invalid JSON response.`));
+                }
+            });
+        });
+        request.on('timeout', () => request.destroy(new Error(`Request to ${url} timed out.`)));
+        request.on('error', reject);
+        if (options.body) {
+            request.write(options.body);
+        }
+        request.end();
+    });
+}
@@ -0,0 +1,63 @@
+import { OneTimeToken, OneTimeTokenType } from '../models';
+
+/**
+ * Types of error that can be thrown by OneTimeTokenService.
+ */
+export enum OneTimeTokenErrorType {
+    INTERNAL,
+    TOKEN_NOT_EXISTS,
+}
+
+/**
+ * One-time tokens access service.
+ */
+export interface OneTimeTokenService {
+
+    /**
+     * Creates the given one-time token.
+     *
+     * @return the given token if creation is a success
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param token The one-time token to create
+     */
+    create(token: OneTimeToken): Promise<OneTimeToken>;
+
+    /**
+     * Finds then deletes the token with the given hash and the given type. Both operations must be
+     * performed atomically so a token can't be consumed twice.
+     * If an user UUID is given, only a token issued for this user can be consumed : a token issued for an other user
+     * must be left untouched.
+     *
+     * @return the consumed token (even if it is expired)
+     * @throws TOKEN_NOT_EXISTS error if no token with the given hash and the given type (and issued for the given user) exists
+     * @throws INTERNAL error in any other case
+     *
+     * @param tokenHash The hash of the token to consume
+     * @param type The expected type of the token
+     * @param userUUID The UUID of the user the token must have been issued for (optional)
+     */
+    consume(tokenHash: string, type: OneTimeTokenType, userUUID?: string): Promise<OneTimeToken>;
+
+    /**
+     * Deletes all the tokens with the given type issued for the user with the given UUID.
+     *
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param userUUID The UUID of the user whose tokens must be deleted
+     * @param type The type of the tokens to delete
+     */
+    deleteForUser(userUUID: string, type: OneTimeTokenType): Promise<void>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class OneTimeTokenServiceError extends Error {
+
+    constructor(message: string, public type: OneTimeTokenErrorType) {
+        super(message);
+    }
+
+}
@@ -0,0 +1,103 @@
+import { DateTime } from 'luxon';
+import { RefreshToken } from '../models';
+
+/**
+ * Types of error that can be thrown by RefreshTokenService.
+ */
+export enum RefreshTokenErrorType {
+    INTERNAL,
+    TOKEN_NOT_EXISTS,
+}
+
+/**
+ * Refresh tokens and tokens revocation access service.
+ */
+export interface RefreshTokenService {
+
+    /**
+     * Creates the given refresh token.
+     *
+     * @return the given refresh token if creation is a success
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param token The refresh token to create
+     */
+    create(token: RefreshToken): Promise<RefreshToken>;
+
+    /**
+     * Finds the refresh token with the given UUID.
+     *
+     * @return the refresh token with the given UUID if it exists (even if it is revoked or expired)
+     * @throws TOKEN_NOT_EXISTS error if no refresh token with the given UUID exists
+     * @throws INTERNAL error in any other case
+     *
+     * @param uuid The refresh token UUID
+     */
+    findByUUID(uuid: string): Promise<RefreshToken>;
+
+    /**
+     * Marks the refresh token with the given UUID as revoked. Checking whether the token is already revoked and marking it
+     * must be performed atomically so that a refresh token can't be exchanged twice by concurrent requests.
+     *
+     * @return true if the token has been revoked by this call, false if it was already revoked
+     * @throws TOKEN_NOT_EXISTS error if no refresh token with the given UUID exists
+     * @throws INTERNAL error in any other case
+     *
+     * @param uuid The refresh token UUID
+     */
+    revoke(uuid: string): Promise<boolean>;
+
+    /**
+     * Revokes all sessions of the user with the given UUID : every refresh token of this user
+     * must be marked as revoked and the given date must be stored as the user sessions revocation date.
+     * Access tokens issued before this date are considered as revoked.
+     *
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param userUUID The UUID of the user to revoke sessions of
+     * @param date The sessions revocation date
+     */
+    revokeAllForUser(userUUID: string, date: DateTime): Promise<void>;
+
+    /**
+     * Finds the last date at which all sessions of the user with the given UUID have been revoked.
+     *
+     * @return the sessions revocation date, or null if sessions of this user have never been revoked
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param userUUID The user UUID
+     */
+    findSessionsRevocationDate(userUUID: string): Promise<DateTime | null>;
+
+    /**
+     * Marks the access token with the given UUID (`jti` claim) as revoked.
+     * The revocation only needs to be kept until the given expiration date of the access token.
+     *
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param uuid The access token UUID
+     * @param expiresAt The date at which the access token expires
+     */
+    revokeAccessToken(uuid: string, expiresAt: DateTime): Promise<void>;
+
+    /**
+     * Checks whether or not the access token with the given UUID (`jti` claim) has been revoked.
+     *
+     * @throws INTERNAL error in any case of failure
+     *
+     * @param uuid The access token UUID
+     */
+    isAccessTokenRevoked(uuid: string): Promise<boolean>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class RefreshTokenServiceError extends Error {
+
+    constructor(message: string, public type: RefreshTokenErrorType) {
+        super(message);
+    }
+
+}
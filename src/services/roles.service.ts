@@ -0,0 +1,97 @@
+import { Role } from '../models';
+
+/**
+ * Types of error that can be thrown by RolesService.
+ */
+export enum RolesErrorType {
+    INTERNAL,
+    ROLE_NOT_EXISTS,
+    ROLE_ALREADY_EXISTS,
+    BDE_NOT_EXISTS,
+}
+
+/**
+ * Roles access service.
+ */
+export interface RolesService {
+
+    /**
+     * Creates the given role.
+     * 
+     * @param role The role to create
+     * 
+     * @returns the role if creation is a success
+     * @throws ROLE_ALREADY_EXISTS error if a role with the same name already exists in the BDE
+     * @throws BDE_NOT_EXISTS error if no BDE with the bde UUID of the given role exists
+     * @throws INTERNAL error in any other case
+     */
+    create(role: Role): Promise<Role>;
+
+    /**
+     * Updates the given role.
+     * 
+     * @param role The new value for the role
+     * 
+     * @returns the updated role if the update is a success
+     * @throws ROLE_NOT_EXISTS error if no role with the given UUID exists
+     * @throws ROLE_ALREADY_EXISTS error if an other role with the same name already exists in the BDE
+     * @throws INTERNAL error in any other case
+     */
+    update(role: Role): Promise<Role>;
+
+    /**
+     * Deletes the role with the given UUID and removes it from users having it.
+     * 
+     * @param uuid The role UUID
+     * 
+     * @returns the deleted role if deletion is a success
+     * @throws ROLE_NOT_EXISTS error if no role with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    delete(uuid: string): Promise<Role>;
+
+    /**
+     * Finds the role with the given UUID.
+     * 
+     * @param uuid The role UUID
+     * 
+     * @returns the role with the given UUID if found
+     * @throws ROLE_NOT_EXISTS error if no role with the given UUID exists
+     * @throws INTERNAL error in any other case
+     */
+    findByUUID(uuid: string): Promise<Role>;
+
+    /**
+     * Finds the roles with the given UUIDs. Unknown UUIDs are ignored.
+     * 
+     * @param uuids The roles UUIDs
+     * 
+     * @returns an array of the found roles
+     * @throws INTERNAL error in any case of failure
+     */
+    findByUUIDs(uuids: string[]): Promise<Role[]>;
+
+    /**
+     * Finds all roles defined by the BDE with the given UUID.
+     * 
+     * Note: in the case of an unknown BDE UUID, just return an empty array
+     * 
+     * @param bdeUUID The BDE UUID
+     * 
+     * @returns an array of roles if search is a success
+     * @throws INTERNAL error in any case of failure
+     */
+    findByBDE(bdeUUID: string): Promise<Role[]>;
+
+}
+
+/**
+ * An error class that allows to specify the type of error encountered.
+ */
+export class RolesServiceError extends Error {
+
+    constructor(message: string, public type: RolesErrorType) {
+        super(message);
+    }
+
+}
@@ -1,5 +1,5 @@
 import { UserRequest } from "../models/user-request.model";
-import { User, UnregisteredUser } from "../models/user.model";
+import { User, UnregisteredUser, Permission, TwoFactor } from "../models/user.model";
 
 /**
  * Types of error that can the thrown by UsersService.
@@ -54,6 +54,20 @@ export interface UsersService {
      */
     finishRegistration(user: User): Promise<User>;
 
+    /**
+     * Updates the profile of the given registered user. Only firstname, lastname, specialty name and
+     * specialty year are updated, other properties of the given user must be ignored.
+     * 
+     * @return the given user if the update is a success
+     * @throws USER_NOT_EXISTS error if no registered user with the given UUID exists
+     * @throws INVALID_SPECIALTY error if the given specialty isn't available in the attached BDE
+     * or if the given year is out of the specialty years range
+     * @throws INTERNAL error in any other case
+     * 
+     * @param user The user to update
+     */
+    update(user: User): Promise<User>;
+
     /**
      * Finds the unregistered user with the given UUID.
      * 
@@ -130,6 +144,102 @@ export interface UsersService {
      */
     processUserRequest(email: string, bdeUUID: string, accepted: boolean): Promise<UnregisteredUser | null>;
 
+    /**
+     * Replaces the password of the registered user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param hashedPassword The new hashed password
+     * 
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updatePassword(uuid: string, hashedPassword: string): Promise<void>;
+
+    /**
+     * Replaces the email of the registered user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param email The new email
+     * 
+     * @throws USER_ALREADY_EXISTS if an other user with the given email already exists
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updateEmail(uuid: string, email: string): Promise<void>;
+
+    /**
+     * Replaces the roles of the user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param roles The UUIDs of the roles to give to the user
+     * 
+     * @throws USER_NOT_EXISTS if no user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updateRoles(uuid: string, roles: string[]): Promise<void>;
+
+    /**
+     * Replaces the permissions of the user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param permissions The new permissions of the user
+     * 
+     * @throws USER_NOT_EXISTS if no user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updatePermissions(uuid: string, permissions: Permission[]): Promise<void>;
+
+    /**
+     * Replaces the two-factor authentication settings of the registered user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param twoFactor The new two-factor authentication settings, or null to disable two-factor authentication
+     * 
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updateTwoFactor(uuid: string, twoFactor: TwoFactor | null): Promise<void>;
+
+    /**
+     * Records the given TOTP time step as the last one accepted for the registered user with the given UUID,
+     * provided it is greater than the last one recorded (see `TwoFactor.lastUsedStep`).
+     * Both the comparison and the update must be performed atomically so a code can't be accepted twice.
+     * 
+     * @returns true if the step has been recorded, false if an equal or greater step was already recorded
+     * 
+     * @param uuid The user UUID
+     * @param step The TOTP time step of the accepted code
+     * 
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    consumeTotpStep(uuid: string, step: number): Promise<boolean>;
+
+    /**
+     * Removes the given hash from the recovery codes of the registered user with the given UUID.
+     * Both the lookup and the removal must be performed atomically so a recovery code can't be used twice.
+     * 
+     * @returns true if the recovery code has been removed, false if the user has no such recovery code
+     * 
+     * @param uuid The user UUID
+     * @param codeHash The hash of the recovery code
+     * 
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    consumeRecoveryCode(uuid: string, codeHash: string): Promise<boolean>;
+
+    /**
+     * Replaces the security stamp of the registered user with the given UUID.
+     * 
+     * @param uuid The user UUID
+     * @param securityStamp The new security stamp
+     * 
+     * @throws USER_NOT_EXISTS if no registered user with the given UUID exists
+     * @throws INTERNAL otherwise
+     */
+    updateSecurityStamp(uuid: string, securityStamp: string): Promise<void>;
+
 }
 
 /**
@@ -1,13 +1,76 @@
+import { Ballot, Participation } from "../models";
+
 export enum VotesErrorType {
     INVALID_USER,
     INTERNAL,
+    ELECTION_NOT_EXISTS,
+    ALREADY_VOTED,
+    BALLOT_NOT_EXISTS,
 };
 
+/**
+ * Votes access service.
+ * 
+ * To guarantee ballot secrecy, participations and ballots must be stored separately and nothing must allow to link
+ * a ballot to a participation (no shared identifier, no creation date, no observable insertion order, ...).
+ */
 export interface VotesService {
 
-    vote(liste: string | null, userUUID: string): Promise<void>;
+    /**
+     * Records the participation of an user and its anonymous ballot. Both must be recorded atomically :
+     * either both are recorded or none of them is.
+     * 
+     * @param participation The participation of the voting user
+     * @param ballot The anonymous ballot
+     * 
+     * @throws ALREADY_VOTED if a participation of this user to this election already exists
+     * @throws INVALID_USER if no user with the given UUID exists
+     * @throws ELECTION_NOT_EXISTS if no election with the given UUID exists
+     * @throws INTERNAL in any other case
+     */
+    vote(participation: Participation, ballot: Ballot): Promise<void>;
+
+    /**
+     * Checks whether or not the user with the given UUID voted for the election with the given UUID.
+     * 
+     * @param electionUUID The election UUID
+     * @param userUUID The user UUID
+     * 
+     * @throws INTERNAL in any case of failure
+     */
+    hasVoted(electionUUID: string, userUUID: string): Promise<boolean>;
 
-    getVote(userUUID: string): Promise<string | null>;
+    /**
+     * Finds the ballot with the given receipt hash for the election with the given UUID.
+     * 
+     * @param electionUUID The election UUID
+     * @param receiptHash The hash of the ballot receipt
+     * 
+     * @returns the ballot matching the given receipt hash
+     * @throws BALLOT_NOT_EXISTS if no ballot matches the given receipt hash
+     * @throws INTERNAL in any other case
+     */
+    findBallot(electionUUID: string, receiptHash: string): Promise<Ballot>;
+
+    /**
+     * Finds all ballots cast for the election with the given UUID.
+     * 
+     * @param electionUUID The election UUID
+     * 
+     * @returns an array of ballots (empty if no ballot has been cast or no election with the given UUID exists)
+     * @throws INTERNAL in any case of failure
+     */
+    findBallots(electionUUID: string): Promise<Ballot[]>;
+
+    /**
+     * Finds all participations to the election with the given UUID.
+     * 
+     * @param electionUUID The election UUID
+     * 
+     * @returns an array of participations (empty if nobody voted or no election with the given UUID exists)
+     * @throws INTERNAL in any case of failure
+     */
+    findParticipations(electionUUID: string): Promise<Participation[]>;
 
 }
 
@@ -20,4 +83,4 @@ export interface VotesService {
         super(message);
     }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { tallyVotes } from './election-results';
+import { Election, User, UnregisteredUser } from '../models';
+import { DateTime } from 'luxon';
+
+describe('Election results', () => {
+
+    const election: Election = {
+        electionUUID: 'election-uuid',
+        bdeUUID: 'bde-uuid',
+        title: 'BDE election',
+        lists: ['allintech', 'toutankhatech'],
+        opening: DateTime.local().minus({ days: 2 }),
+        closing: DateTime.local().minus({ days: 1 }),
+        blankVoteAllowed: true,
+        resultsPublished: true,
+    };
+
+    function member(uuid: string, specialtyName: string, specialtyYear: number, isMember = true): User {
+        return {
+            userUUID: uuid,
+            bdeUUID: 'bde-uuid',
+            email: `${uuid}@provider.tld`,
+            firstname: 'Firstname',
+            lastname: 'Lastname',
+            password: 'password',
+            specialtyName,
+            specialtyYear,
+            permissions: [],
+            member: isMember,
+        };
+    }
+
+    const users: (User | UnregisteredUser)[] = [
+        member('user-1', 'IG', 3),
+        member('user-2', 'IG', 3),
+        member('user-3', 'IG', 4),
+        member('user-4', 'MEA', 3),
+        member('user-5', 'MEA', 3, false),
+        { userUUID: 'user-6', bdeUUID: 'bde-uuid', email: 'user-6@provider.tld', permissions: [], member: true },
+    ];
+
+    const ballots = [
+        { electionUUID: 'election-uuid', receiptHash: 'hash-1', liste: 'allintech' },
+        { electionUUID: 'election-uuid', receiptHash: 'hash-2', liste: 'allintech' },
+        { electionUUID: 'election-uuid', receiptHash: 'hash-3', liste: null },
+        { electionUUID: 'election-uuid', receiptHash: 'hash-4', liste: 'toutankhatech' },
+    ];
+
+    const participations = ['user-1', 'user-3', 'user-4', 'user-5'].map((userUUID) => ({ electionUUID: 'election-uuid', userUUID }));
+
+    it('should count votes for each list and blank votes', () => {
+        const results = tallyVotes(election, ballots, participations, users);
+
+        expect(results.lists).to.eql({ allintech: 2, toutankhatech: 1 });
+        expect(results.blank).to.eq(1);
+        expect(results.voters).to.eq(4);
+    });
+
+    it('should ignore ballots for lists that are not part of the election', () => {
+        const results = tallyVotes(election, [
+            { electionUUID: 'election-uuid', receiptHash: 'hash-1', liste: 'constructor' },
+            { electionUUID: 'election-uuid', receiptHash: 'hash-2', liste: 'unknown' },
+        ], participations, users);
+
+        expect(results.lists).to.eql({ allintech: 0, toutankhatech: 0 });
+    });
+
+    it('should count abstention relatively to BDE members', () => {
+        const results = tallyVotes(election, ballots, participations, users);
+
+        expect(results.members).to.eq(5);
+        expect(results.abstention).to.eq(2);
+    });
+
+    it('should compute participation of registered members for each specialty and year', () => {
+        const results = tallyVotes(election, ballots, participations, users);
+
+        expect(results.participation).to.eql([
+            { specialty: 'IG', year: 3, members: 2, voters: 1, rate: 0.5 },
+            { specialty: 'IG', year: 4, members: 1, voters: 1, rate: 1 },
+            { specialty: 'MEA', year: 3, members: 1, voters: 1, rate: 1 },
+        ]);
+    });
+
+});
@@ -0,0 +1,61 @@
+import { Election, ElectionResults, User, UnregisteredUser, Ballot, Participation } from '../models';
+
+/**
+ * Tallies the given ballots of the given election.
+ * Abstention and participation are computed relatively to the given users being members of the BDE. Participation
+ * is grouped by specialty and year, thus only registered members are taken into account for participation.
+ * 
+ * @param election The election to tally votes of
+ * @param ballots All ballots cast for the election
+ * @param participations All participations to the election
+ * @param users Users of the BDE organizing the election
+ */
+export function tallyVotes(election: Election, ballots: Ballot[], participations: Participation[], users: (User | UnregisteredUser)[]): ElectionResults {
+    const lists: { [list: string]: number } = {};
+    for (let list of election.lists) {
+        lists[list] = 0;
+    }
+
+    let blank = 0;
+    for (let ballot of ballots) {
+        if (ballot.liste === null) {
+            blank++;
+        } else if (Object.prototype.hasOwnProperty.call(lists, ballot.liste)) {
+            lists[ballot.liste]++;
+        }
+    }
+
+    const voters = new Set(participations.map((participation) => participation.userUUID));
+    const members = users.filter((user) => user.member);
+
+    const groups = new Map<string, { specialty: string, year: number, members: number, voters: number }>();
+    for (let member of members) {
+        const { specialtyName, specialtyYear } = <Partial<User>>member;
+        if (specialtyName === undefined || specialtyYear === undefined) {
+            continue;
+        }
+
+        const key = `${specialtyName}/${specialtyYear}`;
+        let group = groups.get(key);
+        if (!group) {
+            group = { specialty: specialtyName, year: specialtyYear, members: 0, voters: 0 };
+            groups.set(key, group);
+        }
+        group.members++;
+        if (voters.has(member.userUUID)) {
+            group.voters++;
+        }
+    }
+
+    return {
+        electionUUID: election.electionUUID,
+        lists,
+        blank,
+        abstention: members.filter((member) => !voters.has(member.userUUID)).length,
+        members: members.length,
+        voters: voters.size,
+        participation: Array.from(groups.values())
+                            .sort((a, b) => a.specialty.localeCompare(b.specialty) || a.year - b.year)
+                            .map((group) => ({ ... group, rate: group.voters / group.members })),
+    };
+}
@@ -0,0 +1,88 @@
+import chai from 'chai';
+import { BCryptHashStrategy, ScryptHashStrategy, LegacyHmacHashStrategy, DelegatingHashStrategy, DEFAULT_HASH_STRATEGY } from './hash';
+
+const { expect } = chai;
+
+describe('Hash strategies', () => {
+
+    const bcrypt = new BCryptHashStrategy(4);
+    const scrypt = new ScryptHashStrategy({ N: 1024, r: 8, p: 1 });
+    const legacy = new LegacyHmacHashStrategy('secret');
+
+    describe('ScryptHashStrategy', () => {
+
+        it('should check a password against its hash', async () => {
+            const hash = await scrypt.hash('thepassword');
+
+            expect(hash).to.match(/^\{scrypt\}1024\$8\$1\$/);
+            expect(await scrypt.check('thepassword', hash)).to.be.true;
+            expect(await scrypt.check('wrongpassword', hash)).to.be.false;
+        });
+
+        it('should need rehash when parameters are weaker than the configured ones', async () => {
+            const hash = await scrypt.hash('thepassword');
+
+            expect(scrypt.needsRehash(hash)).to.be.false;
+            expect(new ScryptHashStrategy({ N: 2048, r: 8, p: 1 }).needsRehash(hash)).to.be.true;
+        });
+
+        it('should reject any password against a corrupted or truncated hash', async () => {
+            const hash = await scrypt.hash('thepassword');
+            const [salt, key] = hash.split('$').slice(3);
+
+            expect(await scrypt.check('anypassword', '{scrypt}1024$8$1$c2FsdA==$')).to.be.false;
+            expect(await scrypt.check('thepassword', `{scrypt}1024$8$1$${salt}$${key.substring(0, 16)}`)).to.be.false;
+            expect(await scrypt.check('thepassword', `{scrypt}1024$8$1$$${key}`)).to.be.false;
+        });
+
+    });
+
+    describe('DelegatingHashStrategy', () => {
+
+        const strategy = new DelegatingHashStrategy({ bcrypt, scrypt }, 'scrypt', legacy);
+
+        it('should hash new passwords using the default strategy', async () => {
+            const hash = await strategy.hash('thepassword');
+
+            expect(hash.startsWith('{scrypt}')).to.be.true;
+            expect(strategy.needsRehash(hash)).to.be.false;
+        });
+
+        it('should check hashes made by any registered strategy', async () => {
+            const bcryptHash = await bcrypt.hash('thepassword');
+            const legacyHash = await legacy.hash('thepassword');
+
+            expect(await strategy.check('thepassword', bcryptHash)).to.be.true;
+            expect(await strategy.check('thepassword', legacyHash)).to.be.true;
+            expect(await strategy.check('wrongpassword', bcryptHash)).to.be.false;
+            expect(await strategy.check('wrongpassword', legacyHash)).to.be.false;
+        });
+
+        it('should need rehash for hashes not made by the default strategy', async () => {
+            expect(strategy.needsRehash(await bcrypt.hash('thepassword'))).to.be.true;
+            expect(strategy.needsRehash(await legacy.hash('thepassword'))).to.be.true;
+        });
+
+        it('should reject hashes with an unknown prefix', async () => {
+            expect(await strategy.check('thepassword', '{argon2}whatever')).to.be.false;
+            expect(await new DelegatingHashStrategy({ bcrypt }, 'bcrypt').check('thepassword', await legacy.hash('thepassword'))).to.be.false;
+        });
+
+        it('should throw if no strategy is registered for the default id', () => {
+            expect(() => new DelegatingHashStrategy({ bcrypt }, 'scrypt')).to.throw();
+        });
+
+    });
+
+    describe('DEFAULT_HASH_STRATEGY', () => {
+
+        it('should hash new passwords using bcrypt and check legacy hashes made with the default secret', async () => {
+            const hash = await DEFAULT_HASH_STRATEGY.hash('thepassword');
+
+            expect(hash.startsWith('{bcrypt}')).to.be.true;
+            expect(await DEFAULT_HASH_STRATEGY.check('thepassword', await new LegacyHmacHashStrategy('hmacsecret').hash('thepassword'))).to.be.true;
+        });
+
+    });
+
+});
@@ -1,41 +1,231 @@
 import * as bcrypt from 'bcrypt';
-import { createHmac } from 'crypto';
-
-const SECRET = process.env.HMAC_SECRET || 'hmacsecret'; // Legacy
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { BackendConfig, createConfig } from '../config';
 
 // Bcrypt
 const HASH_ROUND = 10;
 const BCRYPT_PREFIX = '{bcrypt}';
 
+// Scrypt
+const SCRYPT_PREFIX = '{scrypt}';
+const SCRYPT_SALT_BYTES = 16;
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_DEFAULT_PARAMETERS = { N: 16384, r: 8, p: 1 };
+
 export interface HashStrategy {
     hash(data: string): Promise<string>;
     check(plainPassword: string, hashedPassword: string): Promise<boolean>;
+
+    /**
+     * Checks whether or not the given hash should be replaced by a new hash of the same password
+     * (because it uses a legacy algorithm or weaker parameters than the ones currently used).
+     *
+     * @param hashedPassword The stored hashed password
+     */
+    needsRehash(hashedPassword: string): boolean;
 }
 
-class BCryptHashStrategy implements HashStrategy {
+export class BCryptHashStrategy implements HashStrategy {
+
+    constructor(private rounds: number = HASH_ROUND) {}
 
-    constructor(private secret: string) {}
-    
     async hash(password: string): Promise<string> {
-        const hashedPassword = await bcrypt.hash(password, HASH_ROUND);
+        const hashedPassword = await bcrypt.hash(password, this.rounds);
         return `${BCRYPT_PREFIX}${hashedPassword}`;
     }
-    
+
     async check(plainPassword: string, hashedPassword: string): Promise<boolean> {
         if (!hashedPassword.startsWith(BCRYPT_PREFIX)) {
-            return this.legacyHmacFallback(plainPassword, hashedPassword);
+            return false;
         }
-        
+
         const realHashedPassword = hashedPassword.substring(BCRYPT_PREFIX.length);
         return await bcrypt.compare(plainPassword, realHashedPassword);
     }
 
-    legacyHmacFallback(plainPassword: string, hashedPassword: string): boolean {
+    needsRehash(hashedPassword: string): boolean {
+        if (!hashedPassword.startsWith(BCRYPT_PREFIX)) {
+            return true;
+        }
+
+        try {
+            return bcrypt.getRounds(hashedPassword.substring(BCRYPT_PREFIX.length)) < this.rounds;
+        } catch (_) {
+            return true;
+        }
+    }
+
+}
+
+/**
+ * Hashes passwords using the scrypt function built in Node.
+ * Hashes are formatted as `{scrypt}N$r$p$salt$key` where salt and key are base64 encoded.
+ */
+export class ScryptHashStrategy implements HashStrategy {
+
+    constructor(private parameters: { N: number, r: number, p: number } = SCRYPT_DEFAULT_PARAMETERS) {}
+
+    async hash(password: string): Promise<string> {
+        const salt = randomBytes(SCRYPT_SALT_BYTES);
+        const { N, r, p } = this.parameters;
+        const key = await this.derive(password, salt, this.parameters);
+        return `${SCRYPT_PREFIX}${N}$${r}$${p}$${salt.toString('base64')}$${key.toString('base64')}`;
+    }
+
+    async check(plainPassword: string, hashedPassword: string): Promise<boolean> {
+        const parsed = this.parse(hashedPassword);
+        if (!parsed) {
+            return false;
+        }
+
+        const key = await this.derive(plainPassword, parsed.salt, parsed.parameters);
+        return timingSafeEqual(key, parsed.key);
+    }
+
+    needsRehash(hashedPassword: string): boolean {
+        const parsed = this.parse(hashedPassword);
+        if (!parsed) {
+            return true;
+        }
+
+        const { N, r, p } = parsed.parameters;
+        return N < this.parameters.N || r < this.parameters.r || p < this.parameters.p;
+    }
+
+    private parse(hashedPassword: string) {
+        if (!hashedPassword.startsWith(SCRYPT_PREFIX)) {
+            return null;
+        }
+
+        const parts = hashedPassword.substring(SCRYPT_PREFIX.length).split('$');
+        if (parts.length !== 5) {
+            return null;
+        }
+
+        const [N, r, p] = parts.slice(0, 3).map((part) => parseInt(part, 10));
+        if ([N, r, p].some((value) => !Number.isInteger(value) || value <= 0)) {
+            return null;
+        }
+
+        /* A corrupted or truncated hash must never match, whatever the password */
+        const salt = Buffer.from(parts[3], 'base64');
+        const key = Buffer.from(parts[4], 'base64');
+        if (salt.length === 0 || key.length !== SCRYPT_KEY_LENGTH) {
+            return null;
+        }
+
+        return { parameters: { N, r, p }, salt, key };
+    }
+
+    private derive(password: string, salt: Buffer, parameters: { N: number, r: number, p: number }): Promise<Buffer> {
+        const { N, r, p } = parameters;
+        return new Promise((resolve, reject) => {
+            scrypt(password, salt, SCRYPT_KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (err, key) => err ? reject(err) : resolve(key));
+        });
+    }
+
+}
+
+/**
+ * Legacy unprefixed HMAC-SHA256 hashes. Such hashes must only be checked and upgraded.
+ */
+export class LegacyHmacHashStrategy implements HashStrategy {
+
+    constructor(private secret: string) {}
+
+    async hash(password: string): Promise<string> {
         const hasher = createHmac('sha256', this.secret);
-        hasher.update(plainPassword, 'utf8');
-        return hasher.digest('base64') === hashedPassword;
+        hasher.update(password, 'utf8');
+        return hasher.digest('base64');
     }
 
+    async check(plainPassword: string, hashedPassword: string): Promise<boolean> {
+        const expected = Buffer.from(await this.hash(plainPassword));
+        const actual = Buffer.from(hashedPassword);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    needsRehash(_: string): boolean {
+        return true;
+    }
+
+}
+
+/**
+ * Dispatches hashes to the strategy registered for their `{id}` prefix.
+ * New hashes are computed using the default strategy and hashes made by any other strategy need to be re-hashed.
+ * Unprefixed hashes are handled by the fallback strategy if one is given.
+ */
+export class DelegatingHashStrategy implements HashStrategy {
+
+    private static PREFIX_REGEX = /^\{([a-zA-Z0-9_-]+)\}/;
+
+    constructor(
+        private strategies: { [id: string]: HashStrategy },
+        private defaultId: string,
+        private fallback?: HashStrategy
+    ) {
+        if (!strategies[defaultId]) {
+            throw new Error(`No hash strategy registered for the default id '${defaultId}'.`);
+        }
+    }
+
+    hash(password: string): Promise<string> {
+        return this.strategies[this.defaultId].hash(password);
+    }
+
+    async check(plainPassword: string, hashedPassword: string): Promise<boolean> {
+        const strategy = this.strategyFor(hashedPassword);
+        if (!strategy) {
+            return false;
+        }
+        return strategy.check(plainPassword, hashedPassword);
+    }
+
+    needsRehash(hashedPassword: string): boolean {
+        const id = this.idOf(hashedPassword);
+        if (id !== this.defaultId) {
+            return true;
+        }
+        return this.strategies[id].needsRehash(hashedPassword);
+    }
+
+    private idOf(hashedPassword: string): string | null {
+        const match = DelegatingHashStrategy.PREFIX_REGEX.exec(hashedPassword);
+        return match ? match[1] : null;
+    }
+
+    private strategyFor(hashedPassword: string): HashStrategy | undefined {
+        const id = this.idOf(hashedPassword);
+        if (id === null) {
+            return this.fallback;
+        }
+        return this.strategies[id];
+    }
+
+}
+
+/**
+ * Creates the hash strategy matching the given configuration : new passwords are hashed using the configured
+ * algorithm while bcrypt, scrypt and legacy HMAC hashes can all be checked.
+ *
+ * @param config The backend configuration
+ */
+export function createHashStrategy(config: Pick<BackendConfig, 'hashAlgorithm' | 'hmacSecret'>): HashStrategy {
+    return new DelegatingHashStrategy(
+        {
+            bcrypt: new BCryptHashStrategy(),
+            scrypt: new ScryptHashStrategy(),
+        },
+        config.hashAlgorithm,
+        new LegacyHmacHashStrategy(config.hmacSecret)
+    );
 }
 
-export const DEFAULT_HASH_STRATEGY = new BCryptHashStrategy(SECRET);
\ No newline at end of file
+/**
+ * Hash strategy using the default settings (see `createConfig`). The environment is not read : the legacy HMAC
+ * secret is the development one.
+ *
+ * @deprecated use `createHashStrategy` with an explicit configuration
+ */
+export const DEFAULT_HASH_STRATEGY = createHashStrategy(createConfig());
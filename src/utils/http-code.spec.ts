@@ -9,6 +9,7 @@ describe('HTTP code', () => {
         expect(httpCode.badRequest('').code).to.eq(400);
         expect(httpCode.unauthorized('').code).to.eq(401);
         expect(httpCode.forbidden('').code).to.eq(403);
+        expect(httpCode.tooManyRequests('').code).to.eq(429);
         expect(httpCode.internalServerError('').code).to.eq(500);
     });
 
@@ -21,6 +22,7 @@ describe('HTTP code', () => {
         expect(httpCode.badRequest(message).body).to.eql(expectedBody);
         expect(httpCode.unauthorized(message).body).to.eql(expectedBody);
         expect(httpCode.forbidden(message).body).to.eql(expectedBody);
+        expect(httpCode.tooManyRequests(message).body).to.eql(expectedBody);
         expect(httpCode.internalServerError(message).body).to.eql(expectedBody);
     });
 
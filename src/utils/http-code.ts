@@ -9,6 +9,7 @@ export enum HttpCode {
     Unauthorized = 401,
     Forbidden = 403,
     NotFound = 404,
+    TooManyRequests = 429,
     InternalServerError = 500,
 };
 
@@ -81,6 +82,15 @@ export function forbidden(data: ResponseData): Response {
     return { code: HttpCode.Forbidden, body: normalize(data)};
 }
 
+/**
+ * Creates a 'too many requests' http response with the given data as body.
+ * 
+ * @param data The message describing the encountered error
+ */
+export function tooManyRequests(data: ResponseData): Response {
+    return { code: HttpCode.TooManyRequests, body: normalize(data)};
+}
+
 /**
  * Creates an 'internal server error' http response with the given data as body.
  * 
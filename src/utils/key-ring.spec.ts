@@ -0,0 +1,82 @@
+import chai from 'chai';
+import { generateKeyPairSync } from 'crypto';
+import { DateTime } from 'luxon';
+import { KeyRing, SigningKey, publicKeyFromJWK } from './key-ring';
+
+const { expect } = chai;
+
+function rsaKey(kid: string): SigningKey {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    return { kid, algorithm: 'RS256', publicKey, privateKey };
+}
+
+function ecKey(kid: string): SigningKey {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    return { kid, algorithm: 'ES256', publicKey, privateKey };
+}
+
+describe('Key ring', () => {
+
+    it('should throw if the current key is unknown or has no private key', () => {
+        const key = ecKey('ec');
+
+        expect(() => new KeyRing([key], 'other')).to.throw();
+        expect(() => new KeyRing([{ ... key, privateKey: undefined }], 'ec')).to.throw();
+        expect(() => new KeyRing([{ kid: 'rsa', algorithm: 'RS256', privateKey: key.privateKey }], 'rsa')).to.throw();
+    });
+
+    it('should keep retired keys during the grace period only', () => {
+        const ring = new KeyRing([ecKey('first')], 'first');
+        ring.rotate(ecKey('second'), 60);
+
+        expect(ring.current().kid).to.eq('second');
+        expect(ring.find('first')).to.not.be.undefined;
+
+        ring.rotate(ecKey('third'), -1);
+
+        expect(ring.find('first')).to.be.undefined;
+        expect(ring.find('second')).to.be.undefined;
+        expect(ring.find('third')).to.not.be.undefined;
+    });
+
+    it('should export public keys as a JWKS document', () => {
+        const ring = new KeyRing([rsaKey('rsa'), ecKey('ec'), { kid: 'hmac', algorithm: 'HS256', privateKey: 'secret' }], 'rsa');
+        const { keys } = ring.toJWKS();
+
+        expect(keys.map((k) => k.kid)).to.deep.eq(['rsa', 'ec']);
+
+        const [rsa, ec] = keys;
+        expect(rsa).to.include({ kty: 'RSA', alg: 'RS256', use: 'sig', e: 'AQAB' });
+        expect(Buffer.from(rsa.n!, 'base64')).to.have.length(256);
+        expect(ec).to.include({ kty: 'EC', alg: 'ES256', use: 'sig', crv: 'P-256' });
+        expect(Buffer.from(ec.x!, 'base64')).to.have.length(32);
+        expect(Buffer.from(ec.y!, 'base64')).to.have.length(32);
+        expect(JSON.stringify(keys)).to.not.have.string('PRIVATE');
+    });
+
+    it('should not export expired keys', () => {
+        const ring = new KeyRing([rsaKey('current'), { ... ecKey('expired'), notAfter: DateTime.local().minus({ minutes: 1 }) }], 'current');
+
+        expect(ring.toJWKS().keys.map((k) => k.kid)).to.deep.eq(['current']);
+    });
+
+    it('should convert JSON Web Keys back to the original PEM public keys', () => {
+        const keys = [rsaKey('rsa'), ecKey('ec')];
+        const jwks = new KeyRing(keys, 'rsa').toJWKS();
+
+        expect(jwks.keys.map((jwk) => publicKeyFromJWK(jwk))).to.deep.eq(keys.map((key) => key.publicKey));
+    });
+
+    it('should reject unsupported JSON Web Keys', () => {
+        expect(() => publicKeyFromJWK({ kty: 'oct' })).to.throw();
+    });
+
+});
@@ -0,0 +1,334 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Algorithms that can be used to sign JWT.
+ */
+export type SigningAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * A key used to sign and/or verify JWT.
+ */
+export interface SigningKey {
+
+    /** Key identifier, sent in the `kid` header of the tokens signed with this key */
+    kid: string;
+
+    /** Signing algorithm */
+    algorithm: SigningAlgorithm;
+
+    /** Secret (HS256) or PEM encoded private key (RS256, ES256). Not required for a key only used to verify tokens */
+    privateKey?: string;
+
+    /** PEM encoded public key (RS256, ES256). Not used for HS256 keys */
+    publicKey?: string;
+
+    /** Date after which tokens signed with this key are rejected (end of the grace period of a retired key) */
+    notAfter?: DateTime;
+
+}
+
+/**
+ * Public key in the JSON Web Key format (RFC 7517).
+ */
+export interface JWK {
+    kid: string;
+    kty: 'RSA' | 'EC';
+    alg: SigningAlgorithm;
+    use: 'sig';
+    n?: string;
+    e?: string;
+    crv?: 'P-256';
+    x?: string;
+    y?: string;
+}
+
+/**
+ * Set of keys used to sign and verify JWT. The current key signs new tokens while retired keys
+ * are still accepted for verification until the end of their grace period.
+ */
+export class KeyRing {
+
+    private keys: Map<string, SigningKey>;
+
+    constructor(keys: SigningKey[], private currentKid: string) {
+        this.keys = new Map(keys.map((key) => [key.kid, key]));
+        const current = this.keys.get(currentKid);
+        if (!current) {
+            throw new Error(`No key with kid '${currentKid}' in the key ring.`);
+        }
+        for (let key of keys) {
+            checkKey(key);
+        }
+        if (!current.privateKey) {
+            throw new Error('The current key must have a private key.');
+        }
+    }
+
+    /**
+     * Creates a key ring holding a single HS256 key.
+     *
+     * @param secret The secret used to sign tokens
+     * @param kid The key identifier
+     */
+    static fromSecret(secret: string, kid: string = 'default'): KeyRing {
+        return new KeyRing([{ kid, algorithm: 'HS256', privateKey: secret }], kid);
+    }
+
+    /**
+     * Gets the key used to sign new tokens.
+     */
+    current(): SigningKey {
+        return this.keys.get(this.currentKid)!;
+    }
+
+    /**
+     * Finds the key with the given identifier if it can still be used to verify tokens.
+     *
+     * @param kid The key identifier
+     */
+    find(kid: string): SigningKey | undefined {
+        const key = this.keys.get(kid);
+        if (!key || (key.notAfter && key.notAfter < DateTime.local())) {
+            return undefined;
+        }
+        return key;
+    }
+
+    /**
+     * Makes the given key the current key. Previous keys are retired : tokens they signed are
+     * still accepted during the given grace period.
+     *
+     * @param key The new current key
+     * @param gracePeriod The grace period (in seconds), it should be at least the lifetime of the longest-lived token
+     */
+    rotate(key: SigningKey, gracePeriod: number): void {
+        checkKey(key);
+        if (!key.privateKey) {
+            throw new Error('The current key must have a private key.');
+        }
+        if (this.keys.has(key.kid)) {
+            throw new Error(`A key with kid '${key.kid}' already exists in the key ring.`);
+        }
+
+        const notAfter = DateTime.local().plus({ seconds: gracePeriod });
+        for (let [kid, previous] of this.keys) {
+            if (!previous.notAfter || previous.notAfter > notAfter) {
+                this.keys.set(kid, { ... previous, notAfter });
+            }
+        }
+        this.keys.set(key.kid, key);
+        this.currentKid = key.kid;
+    }
+
+    /**
+     * Exports the public keys that can still be used to verify tokens as a JSON Web Key Set (RFC 7517).
+     * Symmetric (HS256) keys are secret and never exported.
+     */
+    toJWKS(): { keys: JWK[] } {
+        const keys: JWK[] = [];
+        for (let kid of this.keys.keys()) {
+            const key = this.find(kid);
+            if (key && key.algorithm !== 'HS256') {
+                keys.push(toJWK(key));
+            }
+        }
+        return { keys };
+    }
+
+}
+
+/**
+ * Checks the given key holds the material required by its algorithm.
+ *
+ * @param key The key to check
+ */
+function checkKey(key: SigningKey) {
+    if (key.algorithm === 'HS256' && !key.privateKey) {
+        throw new Error(`Key '${key.kid}' : a HS256 key requires a secret.`);
+    }
+    if (key.algorithm !== 'HS256' && !key.publicKey) {
+        throw new Error(`Key '${key.kid}' : a ${key.algorithm} key requires a public key.`);
+    }
+}
+
+// ASN.1 DER decoding of SubjectPublicKeyInfo structures (RFC 5280)
+
+const DER_INTEGER = 0x02;
+const DER_BIT_STRING = 0x03;
+const DER_NULL = 0x05;
+const DER_OBJECT_IDENTIFIER = 0x06;
+const DER_SEQUENCE = 0x30;
+
+const OID_RSA_ENCRYPTION = '2a864886f70d010101';
+const OID_EC_PUBLIC_KEY = '2a8648ce3d0201';
+const OID_PRIME256V1 = '2a8648ce3d030107';
+
+interface DerElement {
+    tag: number;
+    value: Buffer;
+}
+
+/**
+ * Reads the DER element starting at the given offset.
+ *
+ * @returns the element and the offset of the next one
+ */
+function readDer(data: Buffer, offset: number): { element: DerElement, next: number } {
+    const tag = data[offset];
+    let length = data[offset + 1];
+    let start = offset + 2;
+    if (length & 0x80) {
+        const bytes = length & 0x7f;
+        length = 0;
+        for (let i = 0; i < bytes; i++) {
+            length = length * 256 + data[start + i];
+        }
+        start += bytes;
+    }
+    if (tag === undefined || start + length > data.length) {
+        throw new Error('Invalid DER encoded key.');
+    }
+    return { element: { tag, value: data.slice(start, start + length) }, next: start + length };
+}
+
+/**
+ * Reads all the DER elements contained in the given constructed element.
+ */
+function readDerChildren(element: DerElement, expectedTag: number): DerElement[] {
+    if (element.tag !== expectedTag) {
+        throw new Error('Unexpected DER element.');
+    }
+    const children: DerElement[] = [];
+    let offset = 0;
+    while (offset < element.value.length) {
+        const { element: child, next } = readDer(element.value, offset);
+        children.push(child);
+        offset = next;
+    }
+    return children;
+}
+
+function base64url(data: Buffer): string {
+    return data.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function fromBase64url(data: string): Buffer {
+    return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * Encodes a DER element with the given tag and value.
+ */
+function writeDer(tag: number, value: Buffer): Buffer {
+    let length: Buffer;
+    if (value.length < 0x80) {
+        length = Buffer.from([value.length]);
+    } else {
+        const bytes: number[] = [];
+        for (let remaining = value.length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+            bytes.unshift(remaining % 256);
+        }
+        length = Buffer.from([0x80 | bytes.length, ... bytes]);
+    }
+    return Buffer.concat([Buffer.from([tag]), length, value]);
+}
+
+/**
+ * Encodes the given unsigned big-endian integer as a DER (signed) integer.
+ */
+function signedInteger(value: Buffer): Buffer {
+    return writeDer(DER_INTEGER, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+}
+
+/**
+ * Removes the leading zero bytes of a DER encoded (signed) integer.
+ */
+function unsignedInteger(element: DerElement): Buffer {
+    if (element.tag !== DER_INTEGER) {
+        throw new Error('Unexpected DER element.');
+    }
+    let start = 0;
+    while (start < element.value.length - 1 && element.value[start] === 0) {
+        start++;
+    }
+    return element.value.slice(start);
+}
+
+/**
+ * Converts the PEM encoded public key of the given key to a JWK.
+ *
+ * @param key The key to convert
+ */
+function toJWK(key: SigningKey): JWK {
+    const pem = key.publicKey!.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s/g, '');
+    const spki = readDer(Buffer.from(pem, 'base64'), 0).element;
+    const [algorithmIdentifier, subjectPublicKey] = readDerChildren(spki, DER_SEQUENCE);
+    const [algorithm, parameters] = readDerChildren(algorithmIdentifier, DER_SEQUENCE);
+    if (algorithm.tag !== DER_OBJECT_IDENTIFIER || subjectPublicKey.tag !== DER_BIT_STRING) {
+        throw new Error(`Key '${key.kid}' : invalid public key.`);
+    }
+
+    /* The first byte of a bit string is the number of unused bits */
+    const publicKey = subjectPublicKey.value.slice(1);
+    const oid = algorithm.value.toString('hex');
+
+    if (key.algorithm === 'RS256' && oid === OID_RSA_ENCRYPTION) {
+        const [modulus, exponent] = readDerChildren(readDer(publicKey, 0).element, DER_SEQUENCE);
+        return {
+            kid: key.kid,
+            kty: 'RSA',
+            alg: key.algorithm,
+            use: 'sig',
+            n: base64url(unsignedInteger(modulus)),
+            e: base64url(unsignedInteger(exponent)),
+        };
+    }
+
+    if (key.algorithm === 'ES256' && oid === OID_EC_PUBLIC_KEY && parameters && parameters.value.toString('hex') === OID_PRIME256V1) {
+        /* Uncompressed point : 0x04 followed by X and Y coordinates */
+        if (publicKey[0] !== 0x04 || publicKey.length !== 65) {
+            throw new Error(`Key '${key.kid}' : only uncompressed EC public keys are supported.`);
+        }
+        return {
+            kid: key.kid,
+            kty: 'EC',
+            alg: key.algorithm,
+            use: 'sig',
+            crv: 'P-256',
+            x: base64url(publicKey.slice(1, 33)),
+            y: base64url(publicKey.slice(33, 65)),
+        };
+    }
+
+    throw new Error(`Key '${key.kid}' : public key does not match algorithm ${key.algorithm}.`);
+}
+
+/**
+ * Converts the given JSON Web Key (RSA or P-256 EC public key) to a PEM encoded public key.
+ *
+ * @param jwk The key to convert
+ */
+export function publicKeyFromJWK(jwk: { kty: string, n?: string, e?: string, crv?: string, x?: string, y?: string }): string {
+    let spki: Buffer;
+    if (jwk.kty === 'RSA' && jwk.n && jwk.e) {
+        const algorithm = writeDer(DER_SEQUENCE, Buffer.concat([
+            writeDer(DER_OBJECT_IDENTIFIER, Buffer.from(OID_RSA_ENCRYPTION, 'hex')),
+            writeDer(DER_NULL, Buffer.alloc(0)),
+        ]));
+        const publicKey = writeDer(DER_SEQUENCE, Buffer.concat([signedInteger(fromBase64url(jwk.n)), signedInteger(fromBase64url(jwk.e))]));
+        spki = writeDer(DER_SEQUENCE, Buffer.concat([algorithm, writeDer(DER_BIT_STRING, Buffer.concat([Buffer.from([0]), publicKey]))]));
+    } else if (jwk.kty === 'EC' && jwk.crv === 'P-256' && jwk.x && jwk.y) {
+        const algorithm = writeDer(DER_SEQUENCE, Buffer.concat([
+            writeDer(DER_OBJECT_IDENTIFIER, Buffer.from(OID_EC_PUBLIC_KEY, 'hex')),
+            writeDer(DER_OBJECT_IDENTIFIER, Buffer.from(OID_PRIME256V1, 'hex')),
+        ]));
+        /* Uncompressed point : 0x04 followed by X and Y coordinates */
+        const point = Buffer.concat([Buffer.from([0, 0x04]), fromBase64url(jwk.x), fromBase64url(jwk.y)]);
+        spki = writeDer(DER_SEQUENCE, Buffer.concat([algorithm, writeDer(DER_BIT_STRING, point)]));
+    } else {
+        throw new Error(`Unsupported JSON Web Key (${jwk.kty}).`);
+    }
+
+    const lines = spki.toString('base64').match(/.{1,64}/g)!;
+    return `-----BEGIN PUBLIC KEY-----\n${lines.join('\n')}\n-----END PUBLIC KEY-----\n`;
+}
@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+import { generateOneTimeToken, hashOneTimeToken, generateApiKey, API_KEY_PREFIX } from './one-time-token';
+
+describe('One-time token', () => {
+
+    it('should generate a token along with its hash', () => {
+        const { token, hash } = generateOneTimeToken();
+
+        expect(token).to.have.length(64);
+        expect(hash).to.eq(hashOneTimeToken(token));
+        expect(hash).to.not.eq(token);
+    });
+
+    it('should generate different tokens', () => {
+        expect(generateOneTimeToken().token).to.not.eq(generateOneTimeToken().token);
+    });
+
+    it('should generate a prefixed API key along with its hash', () => {
+        const { key, hash } = generateApiKey();
+
+        expect(key.startsWith(API_KEY_PREFIX)).to.be.true;
+        expect(hash).to.eq(hashOneTimeToken(key));
+    });
+
+});
@@ -0,0 +1,51 @@
+import { randomBytes, createHash } from 'crypto';
+
+/**
+ * Number of random bytes a one-time token is made of.
+ */
+const TOKEN_BYTES = 32;
+
+/**
+ * Number of random bytes a recovery code is made of.
+ */
+const RECOVERY_CODE_BYTES = 5;
+
+/**
+ * Prefix of API keys, allowing to tell them apart from JWT.
+ */
+export const API_KEY_PREFIX = 'apikey_';
+
+/**
+ * Generates a random one-time token along with its hash.
+ * The token must be sent to the user while only the hash must be stored.
+ */
+export function generateOneTimeToken(): { token: string, hash: string } {
+    const token = randomBytes(TOKEN_BYTES).toString('hex');
+    return { token, hash: hashOneTimeToken(token) };
+}
+
+/**
+ * Generates a random recovery code : a short one-time token meant to be written down by the user.
+ * Like other one-time tokens, only its hash (see `hashOneTimeToken`) must be stored.
+ */
+export function generateRecoveryCode(): string {
+    return randomBytes(RECOVERY_CODE_BYTES).toString('hex');
+}
+
+/**
+ * Generates a random API key along with its hash. Like one-time tokens, only the hash must be stored.
+ */
+export function generateApiKey(): { key: string, hash: string } {
+    const key = `${API_KEY_PREFIX}${randomBytes(TOKEN_BYTES).toString('hex')}`;
+    return { key, hash: hashOneTimeToken(key) };
+}
+
+/**
+ * Hashes the given one-time token. As tokens are random and long enough, a fast hash
+ * function is sufficient.
+ * 
+ * @param token The plain one-time token
+ */
+export function hashOneTimeToken(token: string): string {
+    return createHash('sha256').update(token, 'utf8').digest('hex');
+}
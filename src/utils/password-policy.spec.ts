@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { PasswordPolicy, DEFAULT_PASSWORD_POLICY } from './password-policy';
+
+describe('Password policy', () => {
+
+    it('should accept a password satisfying the default policy', () => {
+        expect(DEFAULT_PASSWORD_POLICY.check('thepassword')).to.be.empty;
+    });
+
+    it('should reject a too short password', () => {
+        const failures = DEFAULT_PASSWORD_POLICY.check('short');
+
+        expect(failures).to.have.length(1);
+        expect(failures[0]).to.have.string('10 characters');
+    });
+
+    it('should reject a password exceeding 72 bytes', () => {
+        expect(DEFAULT_PASSWORD_POLICY.check('a'.repeat(73))).to.have.length(1);
+        expect(DEFAULT_PASSWORD_POLICY.check('é'.repeat(37))).to.have.length(1);
+        expect(DEFAULT_PASSWORD_POLICY.check('é'.repeat(36))).to.be.empty;
+    });
+
+    it('should reject a common password whatever its case', () => {
+        expect(DEFAULT_PASSWORD_POLICY.check('AzertyUiop')).to.deep.eq(['The password is too common.']);
+    });
+
+    it('should return all failed rules at once', () => {
+        const policy = new PasswordPolicy({ requireUppercase: true, requireDigit: true, requireSymbol: true, forbiddenPasswords: ['short'] });
+
+        expect(policy.check('short')).to.have.length(5);
+        expect(policy.check('Long-enough-1')).to.be.empty;
+    });
+
+});
@@ -0,0 +1,125 @@
+/**
+ * Options of a password policy.
+ */
+export interface PasswordPolicyOptions {
+
+    /** Minimum number of characters */
+    minLength: number;
+
+    /** Maximum number of bytes (UTF-8 encoded). Bcrypt silently ignores bytes after the 72nd one */
+    maxBytes: number;
+
+    /** Whether or not a lowercase letter is required */
+    requireLowercase: boolean;
+
+    /** Whether or not an uppercase letter is required */
+    requireUppercase: boolean;
+
+    /** Whether or not a digit is required */
+    requireDigit: boolean;
+
+    /** Whether or not a character that is neither a letter nor a digit is required */
+    requireSymbol: boolean;
+
+    /** Breached or common passwords that can't be used (compared case-insensitively) */
+    forbiddenPasswords: string[];
+
+}
+
+/**
+ * A short list of common passwords long enough to satisfy the default minimum length.
+ * A bigger list (a breached passwords dump for example) can be given through policy options.
+ */
+export const COMMON_PASSWORDS = [
+    '1234567890',
+    '0123456789',
+    '12345678910',
+    '123456789a',
+    '1q2w3e4r5t',
+    '1qaz2wsx3edc',
+    'qwertyuiop',
+    'azertyuiop',
+    'qwerty1234',
+    'azerty1234',
+    'password12',
+    'password123',
+    'password1234',
+    'motdepasse',
+    'motdepasse1',
+    'motdepasse123',
+    'iloveyou12',
+    'football123',
+    'baseball123',
+    'letmein123',
+    'welcome123',
+    'administrator',
+    'abcdefghij',
+    'aaaaaaaaaa',
+    '1111111111',
+    '0000000000',
+    'bonjour123',
+    'soleil1234',
+];
+
+const DEFAULT_OPTIONS: PasswordPolicyOptions = {
+    minLength: 10,
+    maxBytes: 72,
+    requireLowercase: false,
+    requireUppercase: false,
+    requireDigit: false,
+    requireSymbol: false,
+    forbiddenPasswords: COMMON_PASSWORDS,
+};
+
+/**
+ * Checks passwords against a set of configurable rules.
+ */
+export class PasswordPolicy {
+
+    private options: PasswordPolicyOptions;
+    private forbiddenPasswords: Set<string>;
+
+    constructor(options: Partial<PasswordPolicyOptions> = {}) {
+        this.options = { ... DEFAULT_OPTIONS, ... options };
+        this.forbiddenPasswords = new Set(this.options.forbiddenPasswords.map((p) => p.toLowerCase()));
+    }
+
+    /**
+     * Checks the given password against every rule of this policy.
+     * 
+     * @returns the messages describing all the rules the password fails to satisfy (empty if the password is valid)
+     * 
+     * @param password The plain password to check
+     */
+    check(password: string): string[] {
+        const failures: string[] = [];
+        const { minLength, maxBytes, requireLowercase, requireUppercase, requireDigit, requireSymbol } = this.options;
+
+        if (Array.from(password).length < minLength) {
+            failures.push(`The password must contain at least ${minLength} characters.`);
+        }
+        if (Buffer.byteLength(password, 'utf8') > maxBytes) {
+            failures.push(`The password must not exceed ${maxBytes} bytes.`);
+        }
+        if (requireLowercase && !/[a-z]/.test(password)) {
+            failures.push('The password must contain a lowercase letter.');
+        }
+        if (requireUppercase && !/[A-Z]/.test(password)) {
+            failures.push('The password must contain an uppercase letter.');
+        }
+        if (requireDigit && !/[0-9]/.test(password)) {
+            failures.push('The password must contain a digit.');
+        }
+        if (requireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
+            failures.push('The password must contain a symbol.');
+        }
+        if (this.forbiddenPasswords.has(password.toLowerCase())) {
+            failures.push('The password is too common.');
+        }
+
+        return failures;
+    }
+
+}
+
+export const DEFAULT_PASSWORD_POLICY = new PasswordPolicy();
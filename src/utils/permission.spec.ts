@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { canManageUser, canManagePermissions, canManageEvents } from './permissions';
+import { canManageUser, canManagePermissions, canManageEvents, canManageElections, canManageRoles, canManageApiKeys, resolvePermissions } from './permissions';
 import { Permissions } from '../models';
 
 describe('Permissions', () => {
@@ -93,4 +93,88 @@ describe('Permissions', () => {
 
     });
 
+    describe('canManageElections', () => {
+
+        it('should return true if source has ALL permission', () => {
+            expect(canManageElections({ bdeUUID: 'bde-uuid', permissions: [Permissions.ALL] }, 'other-bde-uuid')).to.be.true;
+        });
+
+        it('should return true if user has permission MANAGE_ELECTIONS and want to manage an election of its own BDE', () => {
+            expect(canManageElections({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_ELECTIONS] }, 'bde-uuid')).to.be.true;
+        });
+
+        it('should return false if user has permission MANAGE_ELECTIONS and want to manage an election of an other BDE', () => {
+            expect(canManageElections({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_ELECTIONS] }, 'other-bde-uuid')).to.be.false;
+        });
+
+        it('should return false if user does not have MANAGE_ELECTIONS permission', () => {
+            expect(canManageElections({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_EVENTS] }, 'bde-uuid')).to.be.false;
+        });
+
+    });
+
+    describe('canManageRoles', () => {
+
+        it('should return true if source has ALL permission', () => {
+            expect(canManageRoles({ bdeUUID: 'bde-uuid', permissions: [Permissions.ALL] }, 'other-bde-uuid')).to.be.true;
+        });
+
+        it('should return true if user has permission MANAGE_PERMISSIONS and want to manage roles of its own BDE', () => {
+            expect(canManageRoles({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_PERMISSIONS] }, 'bde-uuid')).to.be.true;
+        });
+
+        it('should return false if user has permission MANAGE_PERMISSIONS and want to manage roles of an other BDE', () => {
+            expect(canManageRoles({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_PERMISSIONS] }, 'other-bde-uuid')).to.be.false;
+        });
+
+        it('should return false if user does not have MANAGE_PERMISSIONS permission', () => {
+            expect(canManageRoles({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_USERS] }, 'bde-uuid')).to.be.false;
+        });
+
+    });
+
+    describe('canManageApiKeys', () => {
+
+        it('should allow an user with the ALL permission to manage API keys of any BDE', () => {
+            expect(canManageApiKeys({ bdeUUID: 'bde-uuid', permissions: [Permissions.ALL] }, 'other-bde-uuid')).to.be.true;
+        });
+
+        it('should allow an user with the MANAGE_BDE permission to manage API keys of its own BDE only', () => {
+            expect(canManageApiKeys({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_BDE] }, 'bde-uuid')).to.be.true;
+            expect(canManageApiKeys({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_BDE] }, 'other-bde-uuid')).to.be.false;
+        });
+
+        it('should not allow an user without the MANAGE_BDE permission to manage API keys', () => {
+            expect(canManageApiKeys({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_PERMISSIONS] }, 'bde-uuid')).to.be.false;
+        });
+
+    });
+
+    describe('resolvePermissions', () => {
+
+        const roles = [
+            { roleUUID: 'staff', bdeUUID: 'bde-uuid', name: 'Event staff', permissions: [Permissions.MANAGE_EVENTS] },
+            { roleUUID: 'treasurer', bdeUUID: 'bde-uuid', name: 'Treasurer', permissions: [Permissions.MANAGE_USERS, Permissions.MANAGE_EVENTS] },
+            { roleUUID: 'foreign', bdeUUID: 'other-bde-uuid', name: 'Foreign', permissions: [Permissions.MANAGE_PERMISSIONS] },
+        ];
+
+        it('should return own permissions if user has no role', () => {
+            expect(resolvePermissions({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_ELECTIONS] }, roles))
+                .to.eql([Permissions.MANAGE_ELECTIONS]);
+        });
+
+        it('should merge permissions of assigned roles without duplicates', () => {
+            const permissions = resolvePermissions({ bdeUUID: 'bde-uuid', permissions: [Permissions.MANAGE_EVENTS], roles: ['staff', 'treasurer'] }, roles);
+
+            expect(permissions).to.have.members([Permissions.MANAGE_EVENTS, Permissions.MANAGE_USERS]);
+            expect(permissions).to.have.length(2);
+        });
+
+        it('should ignore roles not assigned to the user or defined by an other BDE', () => {
+            expect(resolvePermissions({ bdeUUID: 'bde-uuid', permissions: [], roles: ['staff', 'foreign'] }, roles))
+                .to.eql([Permissions.MANAGE_EVENTS]);
+        });
+
+    });
+
 });
\ No newline at end of file
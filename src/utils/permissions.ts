@@ -1,4 +1,5 @@
 import { Permissions, Permission } from '../models/user.model';
+import { Role } from '../models/role.model';
 
 /**
  * Checks whether or not the given source user can manage permissions
@@ -26,6 +27,58 @@ export function canManagePermissions(source: { bdeUUID: string, permissions: Per
     return !target.permissions.includes(Permissions.MANAGE_PERMISSIONS) || source.permissions.includes(Permissions.MANAGE_BDE);
 }
 
+/**
+ * Checks whether or not the given user holds a privileged permission (one allowing to manage the BDE or permissions).
+ * 
+ * @param source The user to check
+ */
+export function hasPrivilegedPermission(source: { permissions: Permission[] }): boolean {
+    return [Permissions.ALL, Permissions.MANAGE_BDE, Permissions.MANAGE_PERMISSIONS]
+                .some((privileged) => source.permissions.some((p) => p.name === privileged.name));
+}
+
+/**
+ * Checks whether or not the given user can manage roles of the BDE with the given UUID.
+ * 
+ * @param source The user trying to manage roles of the BDE with the given UUID
+ * @param bdeUUID The UUID of the BDE the roles belongs to
+ */
+export function canManageRoles(source: { bdeUUID: string, permissions: Permission[] }, bdeUUID: string): boolean {
+    /* The ALL permission allows to bypass every permission check */
+    if (source.permissions.includes(Permissions.ALL)) {
+        return true;
+    }
+
+    /* Roles bundle permissions, so managing roles requires the MANAGE_PERMISSIONS permission */
+    if (!source.permissions.includes(Permissions.MANAGE_PERMISSIONS)) {
+        return false;
+    }
+
+    /* The MANAGE_PERMISSIONS permission only allows to manage roles of its own BDE */
+    return source.bdeUUID === bdeUUID;
+}
+
+/**
+ * Checks whether or not the given user can manage API keys of the BDE with the given UUID.
+ * 
+ * @param source The user trying to manage API keys of the BDE with the given UUID
+ * @param bdeUUID The UUID of the BDE the API keys belongs to
+ */
+export function canManageApiKeys(source: { bdeUUID: string, permissions: Permission[] }, bdeUUID: string): boolean {
+    /* The ALL permission allows to bypass every permission check */
+    if (source.permissions.includes(Permissions.ALL)) {
+        return true;
+    }
+
+    /* API keys act on behalf of the whole BDE, so managing them requires the MANAGE_BDE permission */
+    if (!source.permissions.includes(Permissions.MANAGE_BDE)) {
+        return false;
+    }
+
+    /* The MANAGE_BDE permission only allows to manage API keys of its own BDE */
+    return source.bdeUUID === bdeUUID;
+}
+
 /**
  * Checks whether or not the given user can manage users of the BDE with the given UUID.
  * 
@@ -68,6 +121,27 @@ export function canManageEvents(source: { bdeUUID: string, permissions: Permissi
     return source.bdeUUID === bdeUUID;
 }
 
+/**
+ * Checks whether or not the given user can manage elections of the BDE with the given UUID.
+ * 
+ * @param source The user that want to manage elections for the BDE with the given UUID
+ * @param bdeUUID The UUID of the BDE the elections belongs to
+ */
+export function canManageElections(source: { bdeUUID: string, permissions: Permission[] }, bdeUUID: string): boolean {
+    /* The ALL permission allows to bypass every permission check */
+    if (source.permissions.includes(Permissions.ALL)) {
+        return true;
+    }
+
+    /* The user can't manage elections without the MANAGE_ELECTIONS permission */
+    if (!source.permissions.includes(Permissions.MANAGE_ELECTIONS)) {
+        return false;
+    }
+
+    /* The MANAGE_ELECTIONS permission only allows to manage elections of its own BDE */
+    return source.bdeUUID === bdeUUID;
+}
+
 /**
  * Checks whether or not, the given user can (soft) manage the booking.
  * Soft managing excludes all administrative actions that can be performed on a booking (mark as payed, delete booking, etc ...).
@@ -87,4 +161,24 @@ export function canManageBooking(source: { uuid: string, bdeUUID: string, permis
  */
 export function permissionsFromStrings(permissionsName: string[]): Permission[] {
     return Object.values(Permissions).filter(p => permissionsName.includes(p.name));
-}
\ No newline at end of file
+}
+
+/**
+ * Resolves the effective permissions of the given user : its own permissions along with the permissions
+ * given by its roles. Only the given roles assigned to the user and defined by its BDE are taken into account.
+ * 
+ * @param user The user to resolve permissions of
+ * @param roles The roles to resolve permissions from
+ */
+export function resolvePermissions(user: { bdeUUID: string, permissions: Permission[], roles?: string[] }, roles: Role[]): Permission[] {
+    const assignedRoles = user.roles || [];
+    const permissionsNames = user.permissions.map((p) => p.name);
+
+    for (let role of roles) {
+        if (role.bdeUUID === user.bdeUUID && assignedRoles.includes(role.roleUUID)) {
+            permissionsNames.push(... role.permissions.map((p) => p.name));
+        }
+    }
+
+    return permissionsFromStrings(permissionsNames);
+}
@@ -0,0 +1,44 @@
+import { expect } from 'chai';
+import { base32Encode, base32Decode, generateTotp, generateTotpSecret, findTotpStep, verifyTotp, totpUri } from './totp';
+
+describe('TOTP', () => {
+
+    /* Secret used by RFC 6238 test vectors (SHA1) */
+    const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+    it('should encode and decode base32', () => {
+        expect(base32Encode(Buffer.from('foobar'))).to.eq('MZXW6YTBOI');
+        expect(base32Decode('mzxw6ytboi======').toString()).to.eq('foobar');
+    });
+
+    it('should generate codes matching RFC 6238 test vectors', () => {
+        expect(generateTotp(rfcSecret, 59 * 1000)).to.eq('287082');
+        expect(generateTotp(rfcSecret, 1111111109 * 1000)).to.eq('081804');
+        expect(generateTotp(rfcSecret, 1234567890 * 1000)).to.eq('005924');
+        expect(generateTotp(rfcSecret, 20000000000 * 1000)).to.eq('353130');
+    });
+
+    it('should accept codes of adjacent time steps only', () => {
+        const secret = generateTotpSecret();
+        const now = Date.now();
+
+        expect(verifyTotp(secret, generateTotp(secret, now), now)).to.be.true;
+        expect(verifyTotp(secret, generateTotp(secret, now - 30 * 1000), now)).to.be.true;
+        expect(verifyTotp(secret, generateTotp(secret, now - 90 * 1000), now)).to.be.false;
+        expect(verifyTotp(secret, 'abcdef', now)).to.be.false;
+    });
+
+    it('should find the time step of a code', () => {
+        const secret = generateTotpSecret();
+        const now = 1234567890 * 1000;
+
+        expect(findTotpStep(secret, generateTotp(secret, now), now)).to.eq(41152263);
+        expect(findTotpStep(secret, generateTotp(secret, now - 30 * 1000), now)).to.eq(41152262);
+        expect(findTotpStep(secret, generateTotp(secret, now - 90 * 1000), now)).to.be.null;
+    });
+
+    it('should build an otpauth URI', () => {
+        expect(totpUri('SECRET', 'john@provider.tld', 'BDE')).to.eq('otpauth://totp/BDE%3Ajohn%40provider.tld?secret=SECRET&issuer=BDE&algorithm=SHA1&digits=6&period=30');
+    });
+
+});
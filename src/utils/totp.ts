@@ -0,0 +1,153 @@
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Number of random bytes a TOTP secret is made of (160 bits, as recommended by RFC 4226).
+ */
+const SECRET_BYTES = 20;
+
+/**
+ * Duration of a time step (in seconds).
+ */
+const TIME_STEP = 30;
+
+/**
+ * Number of digits of a code.
+ */
+const DIGITS = 6;
+
+/**
+ * Encodes the given bytes to base32 (RFC 4648) without padding.
+ * 
+ * @param data The bytes to encode
+ */
+export function base32Encode(data: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (let byte of data) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Decodes the given base32 (RFC 4648) string. Padding, spaces and case are ignored.
+ * 
+ * @param encoded The base32 string to decode
+ * @throws an error if the given string contains invalid characters
+ */
+export function base32Decode(encoded: string): Buffer {
+    const cleaned = encoded.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+
+    for (let char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            output.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(output);
+}
+
+/**
+ * Generates a random base32 encoded TOTP secret.
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Computes the HOTP code (RFC 4226) of the given secret for the given counter.
+ * 
+ * @param secret The base32 encoded secret
+ * @param counter The counter value
+ */
+function hotp(secret: string, counter: number): string {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    buffer.writeUInt32BE(counter % 0x100000000, 4);
+
+    const digest = createHmac('sha1', base32Decode(secret)).update(buffer).digest();
+    const offset = digest[digest.length - 1] & 0xf;
+    const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, DIGITS);
+    return binary.toString().padStart(DIGITS, '0');
+}
+
+/**
+ * Generates the TOTP code (RFC 6238) of the given secret at the given time.
+ * 
+ * @param secret The base32 encoded secret
+ * @param time The UNIX timestamp (in milliseconds) to generate the code for, now by default
+ */
+export function generateTotp(secret: string, time: number = Date.now()): string {
+    return hotp(secret, Math.floor(time / 1000 / TIME_STEP));
+}
+
+/**
+ * Finds the time step the given TOTP code has been generated for. To tolerate clock drift, codes of
+ * the adjacent time steps are accepted too.
+ * 
+ * @returns the time step of the code, or null if the code is invalid
+ * 
+ * @param secret The base32 encoded secret
+ * @param code The code given by the user
+ * @param time The UNIX timestamp (in milliseconds) to check the code at, now by default
+ * @param window The number of adjacent time steps accepted on each side
+ */
+export function findTotpStep(secret: string, code: string, time: number = Date.now(), window: number = 1): number | null {
+    if (!/^[0-9]{6}$/.test(code)) {
+        return null;
+    }
+
+    const counter = Math.floor(time / 1000 / TIME_STEP);
+    for (let i = -window; i <= window; i++) {
+        if (hotp(secret, counter + i) === code) {
+            return counter + i;
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks the given TOTP code against the given secret (see `findTotpStep`).
+ * A valid code stays valid during the whole window : callers must keep track of the last accepted step to refuse replays.
+ * 
+ * @param secret The base32 encoded secret
+ * @param code The code given by the user
+ * @param time The UNIX timestamp (in milliseconds) to check the code at, now by default
+ * @param window The number of adjacent time steps accepted on each side
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now(), window: number = 1): boolean {
+    return findTotpStep(secret, code, time, window) !== null;
+}
+
+/**
+ * Builds the `otpauth://` URI to give (as a QR code for example) to an authenticator application.
+ * 
+ * @param secret The base32 encoded secret
+ * @param account The account name (the user email for example)
+ * @param issuer The name of the service the account belongs to
+ */
+export function totpUri(secret: string, account: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${account}`);
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${TIME_STEP}`;
+}